@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+
+/**
+ * DiscourseApiClient 抛出的错误基类
+ */
+export class ApiError extends Error {
+  constructor(message: string, public readonly statusCode?: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * 未登录或登录已过期（401/403）
+ */
+export class AuthExpiredError extends ApiError {
+  constructor(message: string = vscode.l10n.t('登录已过期，请重新登录'), statusCode?: number) {
+    super(message, statusCode);
+  }
+}
+
+/**
+ * 请求过于频繁（429），重试后仍被限流
+ */
+export class RateLimitedError extends ApiError {
+  /**
+   * @param retryAfter 站点要求等待的时间（毫秒），没有给出时为空
+   */
+  constructor(public readonly retryAfter?: number) {
+    super(retryAfter !== undefined
+      ? vscode.l10n.t('请求过于频繁，请 {0} 秒后再试', Math.ceil(retryAfter / 1000))
+      : vscode.l10n.t('请求过于频繁，请稍后再试'), 429);
+  }
+}
+
+/**
+ * Cloudflare 返回了人机验证页面，需要在浏览器中完成验证
+ */
+export class ChallengeRequiredError extends ApiError {
+  /**
+   * @param url 触发验证的地址，在浏览器中打开以完成验证
+   */
+  constructor(public readonly url: string, statusCode?: number) {
+    super(vscode.l10n.t('{0} 需要完成人机验证', new URL(url).host), statusCode);
+  }
+}
+
+/**
+ * 网络错误或请求超时，没有收到响应
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+  }
+}
+
+/**
+ * 站点返回了错误状态或无法解析的内容
+ */
+export class ServerError extends ApiError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode);
+  }
+}
+
+/**
+ * 在错误信息前加上操作说明，保留错误类型以便界面按类型处理
+ * @param error 原始错误
+ * @param message 操作说明，例如 "获取书签失败"
+ */
+export function wrapError(error: any, message: string): Error {
+  if (error instanceof ApiError || error instanceof vscode.CancellationError) {
+    error.message = `${message}: ${error.message}`;
+    return error;
+  }
+  return new Error(`${message}: ${error.message}`);
+}
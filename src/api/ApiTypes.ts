@@ -6,6 +6,12 @@ export interface Category {
   topic_count: number;
   color: string;
   text_color: string;
+  parent_category_id?: number;
+  subcategory_ids?: number[];
+  // 请求时带上 include_subcategories=true 才会返回
+  subcategory_list?: Category[];
+  // 当前用户的通知级别，未登录时不返回
+  notification_level?: NotificationLevel;
 }
 
 export interface CategoriesResponse {
@@ -14,6 +20,28 @@ export interface CategoriesResponse {
   };
 }
 
+export interface Tag {
+  id: string | number;
+  text: string;
+  name?: string;
+  count: number;
+}
+
+export interface TagsResponse {
+  tags: Tag[];
+}
+
+/**
+ * 话题列表中的参与者，用户信息在列表响应的 users 中
+ */
+export interface TopicPoster {
+  user_id: number;
+  // 例如 "原始发帖人, 最新发帖人"
+  description: string;
+  // 最新发帖人为 "latest"，原始发帖人和最新发帖人相同时为 "latest single"
+  extras?: string | null;
+}
+
 export interface Topic {
   id: number;
   title: string;
@@ -21,33 +49,144 @@ export interface Topic {
   posts_count: number;
   reply_count: number;
   views: number;
+  like_count?: number;
   created_at: string;
   last_posted_at: string;
+  // 最后一次被顶起的时间，通常是最后回复时间
+  bumped_at?: string;
   pinned: boolean;
   closed: boolean;
+  archived?: boolean;
   category_id: number;
+  archetype?: string;
+  last_poster_username?: string;
+  posters?: TopicPoster[];
+  unread_posts?: number;
+  new_posts?: number;
+  // 当前用户还没有看过的新话题
+  unseen?: boolean;
+  highest_post_number?: number;
+  // 当前用户读到的楼层，没有读过的话题不返回
+  last_read_post_number?: number;
+  notification_level?: NotificationLevel;
+}
+
+/**
+ * 话题和分类的通知级别，对应 NotificationLevels
+ */
+export enum NotificationLevel {
+  Muted = 0,
+  Regular = 1,
+  Tracking = 2,
+  Watching = 3
 }
 
 export interface TopicListResponse {
   topic_list: {
     topics: Topic[];
+    per_page?: number;
+    // 下一页的地址，例如 /latest?page=1，没有更多时不返回
+    more_topics_url?: string;
+  };
+}
+
+/**
+ * 话题列表的排序方式，对应 /latest、/top、/hot 等列表
+ */
+export type TopicListMode = 'latest' | 'top' | 'hot' | 'new' | 'unread' | 'posted';
+
+/**
+ * 排行榜的统计周期
+ */
+export type TopPeriod = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'all';
+
+export interface TopicListFilter {
+  mode: TopicListMode;
+  // 仅 mode 为 top 时有效
+  period?: TopPeriod;
+}
+
+export interface BasicUser {
+  id?: number;
+  username: string;
+  name: string | null;
+  avatar_template: string;
+}
+
+export interface CurrentUser extends BasicUser {
+  id: number;
+}
+
+export interface SessionResponse {
+  current_user: CurrentUser;
+}
+
+export interface UserSearchResponse {
+  users: BasicUser[];
+}
+
+/**
+ * 可以添加书签的对象：单条帖子或整个话题
+ */
+export type BookmarkableType = 'Post' | 'Topic';
+
+export interface Bookmark {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  name: string | null;
+  reminder_at: string | null;
+  title: string;
+  excerpt?: string;
+  bookmarkable_id: number;
+  bookmarkable_type: BookmarkableType;
+  bookmarkable_url?: string;
+  topic_id: number;
+  linked_post_number: number;
+  slug: string;
+  category_id?: number;
+  user?: BasicUser;
+}
+
+export interface BookmarksResponse {
+  // 没有书签时接口只返回 bookmarks 空数组
+  user_bookmark_list?: {
+    bookmarks: Bookmark[];
+    more_bookmarks_url?: string;
   };
+  bookmarks?: Bookmark[];
 }
 
+/**
+ * 私信列表：收件箱、已发送、归档和未读
+ */
+export type PrivateMessageBox = 'inbox' | 'sent' | 'archive' | 'unread';
+
 export interface Post {
   id: number;
+  name: string;
   username: string;
+  avatar_template: string;
   created_at: string;
+  updated_at: string;
   cooked: string;
   post_number: number;
   reply_count: number;
   quote_count: number;
+  reply_to_post_number: number | null;
+  topic_id?: number;
+  topic_slug?: string;
+  raw?: string;
 }
 
 export interface TopicDetail {
   id: number;
   title: string;
+  slug: string;
   posts_count: number;
+  created_at?: string;
+  highest_post_number?: number;
+  last_read_post_number?: number;
   post_stream: {
     posts: Post[];
     stream: number[];  // 所有 post ID 的数组
@@ -60,23 +199,144 @@ export interface PostsResponse {
   };
 }
 
+/**
+ * Discourse 的通知类型，对应 Notification.types
+ */
+export enum NotificationType {
+  Mentioned = 1,
+  Replied = 2,
+  Quoted = 3,
+  Edited = 4,
+  Liked = 5,
+  PrivateMessage = 6,
+  InvitedToPrivateMessage = 7,
+  InviteeAccepted = 8,
+  Posted = 9,
+  MovedPost = 10,
+  Linked = 11,
+  GrantedBadge = 12,
+  InvitedToTopic = 13,
+  Custom = 14,
+  GroupMentioned = 15,
+  GroupMessageSummary = 16,
+  WatchingFirstPost = 17,
+  TopicReminder = 18,
+  LikedConsolidated = 19,
+  PostApproved = 20,
+  CodeReviewCommitApproved = 21,
+  MembershipRequestAccepted = 22,
+  MembershipRequestConsolidated = 23,
+  BookmarkReminder = 24,
+  Reaction = 25,
+  VotesReleased = 26,
+  EventReminder = 27,
+  EventInvitation = 28,
+  ChatMention = 29,
+  ChatMessage = 30,
+  ChatInvitation = 31,
+  ChatGroupMention = 32,
+  ChatQuoted = 33,
+  AssignedTopic = 34,
+  QuestionAnswerUserCommented = 35,
+  WatchingCategoryOrTag = 36,
+  NewFeatures = 37,
+  AdminProblems = 38,
+  LinkedConsolidated = 39,
+  ChatWatchedThread = 40,
+  Following = 800,
+  FollowingCreatedTopic = 801,
+  FollowingReplied = 802,
+  CirclesActivity = 900
+}
+
 export interface Notification {
   id: number;
-  notification_type: number;
+  notification_type: NotificationType;
   read: boolean;
   created_at: string;
-  post_number: number;
-  topic_id: number;
-  slug: string;
+  post_number: number | null;
+  topic_id: number | null;
+  slug: string | null;
   data: {
-    topic_title: string;
-    original_post_id: number;
-    original_post_type: number;
-    original_username: string;
-    display_username: string;
+    topic_title?: string;
+    original_post_id?: number;
+    original_post_type?: number;
+    original_username?: string;
+    display_username?: string;
+    username?: string;
+    username2?: string;
+    count?: number;
+    badge_id?: number;
+    badge_name?: string;
+    badge_slug?: string;
+    group_id?: number;
+    group_name?: string;
+    inbox_count?: number;
+    message?: string;
+    title?: string;
+    [key: string]: unknown;
   };
 }
 
 export interface NotificationsResponse {
   notifications: Notification[];
+  total_rows_notifications?: number;
+  seen_notification_id?: number;
+  load_more_notifications?: string;
+}
+
+export interface SearchPost {
+  id: number;
+  name: string;
+  username: string;
+  avatar_template: string;
+  created_at: string;
+  like_count: number;
+  blurb: string;
+  post_number: number;
+  topic_id: number;
+}
+
+export interface SearchResponse {
+  posts?: SearchPost[];
+  topics?: Topic[];
+  grouped_search_result: {
+    more_posts: boolean | null;
+    more_full_page_results: boolean | null;
+    term: string;
+  };
+}
+
+export interface Draft {
+  draft_key: string;
+  sequence: number;
+  // 草稿内容，接口返回 JSON 字符串
+  data: string;
+  topic_id?: number;
+  title?: string;
+  excerpt?: string;
+  created_at: string;
+}
+
+export interface DraftsResponse {
+  drafts: Draft[];
+}
+
+export interface DraftResponse {
+  draft: string | null;
+  draft_sequence: number;
+}
+
+export interface DraftData {
+  reply: string;
+  action: string;
+  title?: string;
+  categoryId?: number;
+  tags?: string[];
+  // 私信收件人，逗号分隔
+  recipients?: string;
+  postId?: number;
+  archetypeId?: string;
+  composerTime?: number;
+  typingTime?: number;
 }
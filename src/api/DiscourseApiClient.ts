@@ -1,26 +1,107 @@
+import * as vscode from 'vscode';
 import * as https from 'https';
 import * as zlib from 'zlib';
 import { DISCOURSE_API } from '../constants/Config';
+import type { Site } from '../sites/Site';
+import { ResponseCache, CacheEntry } from './ResponseCache';
+import { RequestScheduler, delay } from './RequestScheduler';
+import { getAgent } from './ProxyAgent';
+import type { UserApiKey } from '../auth/CookieStorage';
+import { CookieJar } from '../auth/CookieJar';
+import { AuthExpiredError, ChallengeRequiredError, NetworkError, RateLimitedError, ServerError } from './ApiErrors';
 import type {
   Category,
   CategoriesResponse,
   Topic,
   TopicListResponse,
+  TopicListFilter,
   TopicDetail,
   Post,
-  Notification,
-  NotificationsResponse
+  NotificationsResponse,
+  NotificationLevel,
+  SearchResponse,
+  Draft,
+  DraftsResponse,
+  DraftResponse,
+  DraftData,
+  Tag,
+  TagsResponse,
+  BasicUser,
+  CurrentUser,
+  SessionResponse,
+  UserSearchResponse,
+  PrivateMessageBox,
+  Bookmark,
+  BookmarkableType,
+  BookmarksResponse
 } from './ApiTypes';
 
+export interface CookieUpdate {
+  // 发出请求时的账号，Cookie 要保存到这个账号下
+  accountId: string;
+  cookie: string;
+  // 会话 Cookie（_t）的过期时间
+  sessionExpiresAt?: number;
+}
+
+interface HttpResponse {
+  statusCode: number;
+  statusMessage: string;
+  headers: any;
+  body: string;
+}
+
+// 可以重试的响应状态：限流和网关暂时不可用
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+
+// 可以重试的网络错误
+const RETRYABLE_ERROR_CODES = new Set(['ETIMEDOUT', 'ECONNRESET', 'EPIPE', 'EAI_AGAIN']);
+
+// 指数退避的初始间隔和上限
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 30 * 1000;
+
+// 站点要求等待的时间超过这个值时不再自动重试
+const MAX_RETRY_AFTER = 60 * 1000;
+
+// 话题列表的缓存，话题有新回复或状态变化后一起失效
+const TOPIC_LIST_CACHE_PATTERN = /^\/((latest|top|hot|new|unread|posted)\.json|c\/|tag\/)/;
+
+// 登录凭证相关的请求头，重定向到其他站点时不能带上
+const CREDENTIAL_HEADERS = new Set(['user-api-key', 'user-api-client-id', 'cookie', 'x-csrf-token']);
+
 export class DiscourseApiClient {
   private cookie: string = '';
   private userAgent: string = '';
   private cookieInitialized: boolean = false;
   private csrfToken: string = '';
+  private userApiKey?: UserApiKey;
+  private cookieJar?: CookieJar;
+  // 当前 Cookie 所属的账号
+  private accountId: string = '';
+
+  // 服务端通过 Set-Cookie 轮换 Cookie 后触发，需要保存新的 Cookie
+  private _onDidUpdateCookie = new vscode.EventEmitter<CookieUpdate>();
+  readonly onDidUpdateCookie: vscode.Event<CookieUpdate> = this._onDidUpdateCookie.event;
+
+  // 请求返回 401/403 时触发
+  private _onDidRejectAuth = new vscode.EventEmitter<void>();
+  readonly onDidRejectAuth: vscode.Event<void> = this._onDidRejectAuth.event;
+
+  // 正在后台重新验证的接口
+  private revalidating: Set<string> = new Set();
+  // 话题内容变化后失效的缓存的版本号，用于丢弃变化前发出的后台更新
+  private cacheGeneration: number = 0;
+
+  private scheduler: RequestScheduler = new RequestScheduler();
 
   constructor(
+    private site: Site,
+    private getAccountIdFunc: () => Promise<string>,
     private getCookieFunc: () => Promise<string>,
-    private getUserAgentFunc: () => Promise<string>
+    private getUserAgentFunc: () => Promise<string>,
+    private getUserApiKeyFunc: () => Promise<UserApiKey | undefined>,
+    private cache?: ResponseCache
   ) {
     // 不在构造函数中调用异步方法
   }
@@ -52,7 +133,7 @@ export class DiscourseApiClient {
   private async fetchCsrfTokenFromHomepage(): Promise<string> {
     try {
       console.log('[DiscourseApiClient] 尝试从首页获取 CSRF Token...');
-      const url = DISCOURSE_API.BASE_URL;
+      const url = this.site.url('/');
 
       const response = await this.httpsRequest(url, {
         method: 'GET',
@@ -65,6 +146,7 @@ export class DiscourseApiClient {
         }
       });
 
+      this.updateCookies(response);
       console.log('[DiscourseApiClient] 首页响应状态:', response.statusCode);
       console.log('[DiscourseApiClient] 首页内容长度:', response.body.length);
 
@@ -94,10 +176,19 @@ export class DiscourseApiClient {
 
   private async ensureCookieLoaded(): Promise<void> {
     if (!this.cookieInitialized) {
+      this.accountId = await this.getAccountIdFunc();
       this.cookie = await this.getCookieFunc();
       this.userAgent = await this.getUserAgentFunc();
+      this.userApiKey = await this.getUserApiKeyFunc();
+      this.cookieJar = new CookieJar(this.cookie);
       this.cookieInitialized = true;
 
+      // 使用 User API Key 时不需要 Cookie 和 CSRF Token
+      if (this.userApiKey) {
+        console.log('[DiscourseApiClient] 使用 User API Key 登录');
+        return;
+      }
+
       console.log('[DiscourseApiClient] Cookie已加载，长度:', this.cookie.length);
       console.log('[DiscourseApiClient] Cookie内容（前500字符）:', this.cookie.substring(0, 500));
       console.log('[DiscourseApiClient] User-Agent已加载:', this.userAgent.substring(0, 100));
@@ -115,11 +206,65 @@ export class DiscourseApiClient {
     }
   }
 
+  /**
+   * 把响应中的 Set-Cookie 合并到发出请求时的 Cookie，有变化时通知保存
+   * 请求期间切换了账号时只保存到原来的账号，不影响当前账号的 Cookie
+   * @param accountId 发出请求时的账号
+   * @param cookieJar 发出请求时的 Cookie
+   */
+  private updateCookies(response: HttpResponse, accountId: string = this.accountId, cookieJar: CookieJar | undefined = this.cookieJar): void {
+    if (this.userApiKey || !cookieJar) {
+      return;
+    }
+    if (cookieJar.setCookies(response.headers['set-cookie'])) {
+      const cookie = cookieJar.toString();
+      if (cookieJar === this.cookieJar) {
+        this.cookie = cookie;
+      }
+      console.log('[DiscourseApiClient] Cookie已更新');
+      this._onDidUpdateCookie.fire({
+        accountId,
+        cookie,
+        sessionExpiresAt: cookieJar.getExpiresAt('_t')
+      });
+    }
+  }
+
+  /**
+   * 登录凭证请求头，优先使用 User API Key
+   */
+  private getAuthHeaders(): Record<string, string> {
+    if (this.userApiKey) {
+      return {
+        'User-Api-Key': this.userApiKey.key,
+        'User-Api-Client-Id': this.userApiKey.clientId
+      };
+    }
+    return { 'Cookie': this.cookie };
+  }
+
+  /**
+   * 丢弃已加载的 Cookie，下次请求时重新读取
+   * 登录状态变化前发出的请求不再写入缓存，避免写到另一个账号的缓存中
+   */
+  resetCookie(): void {
+    this.cookieInitialized = false;
+    this.cacheGeneration++;
+  }
+
   async refreshCookie(): Promise<void> {
+    this.accountId = await this.getAccountIdFunc();
     this.cookie = await this.getCookieFunc();
     this.userAgent = await this.getUserAgentFunc();
+    this.userApiKey = await this.getUserApiKeyFunc();
+    this.cookieJar = new CookieJar(this.cookie);
     this.cookieInitialized = true;
 
+    if (this.userApiKey) {
+      console.log('[DiscourseApiClient] User API Key已刷新');
+      return;
+    }
+
     // 重新提取 CSRF Token
     this.csrfToken = this.extractCsrfToken(this.cookie);
     if (!this.csrfToken) {
@@ -131,16 +276,13 @@ export class DiscourseApiClient {
   }
 
   /**
-   * 使用https模块发送请求
+   * 使用https模块发送请求，按设置通过代理连接
    */
-  private httpsRequest(url: string, options: https.RequestOptions, postData?: string, followRedirects: number = 3): Promise<{
-    statusCode: number;
-    statusMessage: string;
-    headers: any;
-    body: string;
-  }> {
-    return new Promise((resolve, reject) => {
-      const req = https.request(url, options, (res) => {
+  private httpsRequest(url: string, options: https.RequestOptions, postData?: string, followRedirects: number = 3, token?: vscode.CancellationToken): Promise<HttpResponse> {
+    let cancelListener: vscode.Disposable | undefined;
+
+    return new Promise<HttpResponse>((resolve, reject) => {
+      const req = https.request(url, { ...options, agent: getAgent(url) }, (res) => {
         // 处理重定向
         if ((res.statusCode === 301 || res.statusCode === 302 || res.statusCode === 307 || res.statusCode === 308) && followRedirects > 0) {
           const redirectUrl = res.headers.location;
@@ -150,10 +292,19 @@ export class DiscourseApiClient {
             // 如果是相对路径，转换为绝对路径
             const finalUrl = redirectUrl.startsWith('http')
               ? redirectUrl
-              : `${DISCOURSE_API.BASE_URL}${redirectUrl}`;
+              : this.site.url(redirectUrl);
+
+            // 重定向到其他站点时去掉登录凭证，避免泄露给第三方
+            let redirectOptions = options;
+            if (new URL(finalUrl).origin !== new URL(this.site.baseUrl).origin) {
+              const headers = Object.fromEntries(
+                Object.entries(options.headers || {}).filter(([name]) => !CREDENTIAL_HEADERS.has(name.toLowerCase()))
+              );
+              redirectOptions = { ...options, headers };
+            }
 
             // 递归处理重定向
-            this.httpsRequest(finalUrl, options, postData, followRedirects - 1)
+            this.httpsRequest(finalUrl, redirectOptions, postData, followRedirects - 1, token)
               .then(resolve)
               .catch(reject);
             return;
@@ -212,105 +363,341 @@ export class DiscourseApiClient {
         reject(error);
       });
 
+      // 超过 options.timeout 没有响应时中止请求
+      req.on('timeout', () => {
+        req.destroy(Object.assign(new Error(vscode.l10n.t('请求超时')), { code: 'ETIMEDOUT' }));
+      });
+
+      // 节点折叠等情况下取消请求
+      cancelListener = token?.onCancellationRequested(() => {
+        req.destroy(new vscode.CancellationError());
+      });
+
       // 如果有POST数据，写入请求体
       if (postData) {
         req.write(postData);
       }
 
       req.end();
+    }).finally(() => {
+      cancelListener?.dispose();
     });
   }
 
-  private async request<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  private async request<T>(endpoint: string, options?: RequestInit, token?: vscode.CancellationToken): Promise<T> {
+    const method = (options?.method as string) || 'GET';
+
+    try {
+      // 浏览用的只读接口先读缓存
+      if (method === 'GET' && this.cache && this.cache.getTtl(endpoint) !== undefined) {
+        return await this.cachedRequest<T>(endpoint, options, token);
+      }
+
+      const response = await this.send(endpoint, options, token);
+      return this.parseResponse<T>(endpoint, response);
+    } catch (error: any) {
+      if (error instanceof vscode.CancellationError) {
+        console.log(`[DiscourseApiClient] 请求已取消: ${endpoint}`);
+        throw error;
+      }
+      console.error(`[DiscourseApiClient] 请求异常: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * 先返回缓存内容，过期的缓存在后台重新验证
+   */
+  private async cachedRequest<T>(endpoint: string, options?: RequestInit, token?: vscode.CancellationToken): Promise<T> {
+    const cache = this.cache!;
+    const entry = await cache.get(endpoint);
+
+    if (entry && cache.isFresh(entry)) {
+      console.log(`[DiscourseApiClient] 使用缓存: ${endpoint}`);
+      return JSON.parse(entry.body) as T;
+    }
+
+    if (entry) {
+      console.log(`[DiscourseApiClient] 使用过期缓存并在后台更新: ${endpoint}`);
+      this.revalidate(endpoint, entry, options);
+      return JSON.parse(entry.body) as T;
+    }
+
+    return JSON.parse(await this.fetchAndCache(endpoint, undefined, options, token)) as T;
+  }
+
+  private revalidate(endpoint: string, entry: CacheEntry, options?: RequestInit): void {
+    if (this.revalidating.has(endpoint)) {
+      return;
+    }
+    this.revalidating.add(endpoint);
+
+    this.fetchAndCache(endpoint, entry, options)
+      .then(body => {
+        if (body !== entry.body) {
+          this.cache!.notifyUpdated(endpoint);
+        }
+      })
+      .catch(error => {
+        console.error(`[DiscourseApiClient] 后台更新失败: ${endpoint}`, error.message);
+      })
+      .finally(() => {
+        this.revalidating.delete(endpoint);
+      });
+  }
+
+  /**
+   * 带上 ETag 和 Last-Modified 发送条件请求，并更新缓存
+   * @returns 最新的响应内容
+   */
+  private async fetchAndCache(endpoint: string, entry: CacheEntry | undefined, options?: RequestInit, token?: vscode.CancellationToken): Promise<string> {
+    const cache = this.cache!;
+    const generation = this.cacheGeneration;
+    const headers: Record<string, string> = { ...(options?.headers as Record<string, string> || {}) };
+    if (entry?.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+
+    let response;
+    try {
+      response = await this.send(endpoint, { ...options, headers }, token);
+    } catch (error) {
+      // 网络不可用时使用缓存
+      if (entry) {
+        return entry.body;
+      }
+      throw error;
+    }
+
+    if (response.statusCode === 304 && entry) {
+      console.log(`[DiscourseApiClient] 缓存未变化: ${endpoint}`);
+      if (this.canWriteCache(generation)) {
+        await cache.touch(entry);
+      }
+      return entry.body;
+    }
+
+    // 站点暂时不可用时同样使用缓存
+    if (response.statusCode >= 500 && entry) {
+      cache.setOffline(true);
+      return entry.body;
+    }
+
+    this.parseResponse<unknown>(endpoint, response);
+    // 请求期间缓存已失效时不保存，避免写回变化前的内容
+    if (this.canWriteCache(generation)) {
+      await cache.set(endpoint, response.body, response.headers['etag'], response.headers['last-modified']);
+    }
+    return response.body;
+  }
+
+  /**
+   * 请求的响应是否还能写入缓存
+   * 请求期间缓存失效或切换了账号，或者缓存还没有切换到当前 Cookie 所属的账号时都不能写入
+   * @param generation 发出请求时缓存的版本号
+   */
+  private canWriteCache(generation: number): boolean {
+    return generation === this.cacheGeneration && this.cache?.getAccountId() === this.accountId;
+  }
+
+  /**
+   * 删除话题和话题列表的缓存，发布回复、修改书签或修改通知级别之后调用
+   */
+  async invalidateTopic(topicId: number): Promise<void> {
+    this.cacheGeneration++;
+    await this.cache?.invalidate(new RegExp(`^/t/${topicId}(/posts)?\\.json`));
+    await this.cache?.invalidate(TOPIC_LIST_CACHE_PATTERN);
+  }
+
+  /**
+   * 只删除话题内容的缓存，不影响话题列表，例如打开有新回复的话题之前
+   */
+  async invalidateTopicPosts(topicId: number): Promise<void> {
+    await this.cache?.invalidate(new RegExp(`^/t/${topicId}(/posts)?\\.json`));
+  }
+
+  /**
+   * 删除分类和话题列表的缓存，修改分类的通知级别之后调用
+   */
+  async invalidateCategories(): Promise<void> {
+    this.cacheGeneration++;
+    await this.cache?.invalidate(/^\/categories\.json/);
+    await this.cache?.invalidate(TOPIC_LIST_CACHE_PATTERN);
+  }
+
+  /**
+   * 发送请求，不检查响应状态
+   * 请求经过队列限制并发，限流、网关错误和超时会按指数退避重试
+   */
+  private async send(endpoint: string, options?: RequestInit, token?: vscode.CancellationToken): Promise<HttpResponse> {
     // 确保Cookie已加载
     await this.ensureCookieLoaded();
 
-    if (!this.cookie) {
+    if (!this.cookie && !this.userApiKey) {
       console.error('[DiscourseApiClient] Cookie为空，请先登录');
-      throw new Error('请先登录');
+      throw new AuthExpiredError(vscode.l10n.t('请先登录'));
     }
 
-    const url = `${DISCOURSE_API.BASE_URL}${endpoint}`;
+    const url = this.site.url(endpoint);
     const method = (options?.method as string) || 'GET';
     const body = options?.body as string | undefined;
+    // 响应返回前可能已经切换账号，轮换的 Cookie 要保存到发出请求的账号
+    const accountId = this.accountId;
+    const cookieJar = this.cookieJar;
 
     console.log(`[DiscourseApiClient] 请求: ${method} ${url}`);
-    console.log(`[DiscourseApiClient] Cookie长度: ${this.cookie.length}`);
+    if (!this.userApiKey) {
+      console.log(`[DiscourseApiClient] Cookie长度: ${this.cookie.length}`);
+    }
     if (body) {
       console.log(`[DiscourseApiClient] 请求体:`, body);
     }
 
-    try {
-      const headers: Record<string, string> = {
-        'Cookie': this.cookie,
-        'User-Agent': this.userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/142.0.0.0 Safari/537.36 Edg/142.0.0.0',
-        'Accept': 'application/json, text/javascript, */*; q=0.01',
-        'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8,en-GB;q=0.7,en-US;q=0.6',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Sec-CH-UA': '"Chromium";v="142", "Microsoft Edge";v="142", "Not_A Brand";v="99"',
-        'Sec-CH-UA-Mobile': '?0',
-        'Sec-CH-UA-Platform': '"Windows"',
-        ...(options?.headers as Record<string, string> || {})
-      };
-
-      // 如果是 POST/PUT/DELETE 请求，使用 AJAX 风格的请求头
-      if (method === 'POST' || method === 'PUT' || method === 'DELETE') {
-        headers['Content-Type'] = 'application/json; charset=UTF-8';
-        headers['X-Requested-With'] = 'XMLHttpRequest';
-        headers['Origin'] = DISCOURSE_API.BASE_URL.replace(/\/$/, '');
-        headers['Referer'] = DISCOURSE_API.BASE_URL;
-        headers['Sec-Fetch-Dest'] = 'empty';
-        headers['Sec-Fetch-Mode'] = 'cors';
-        headers['Sec-Fetch-Site'] = 'same-origin';
-
-        // 添加 CSRF Token
+    const headers: Record<string, string> = {
+      ...this.getAuthHeaders(),
+      'User-Agent': this.userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/142.0.0.0 Safari/537.36 Edg/142.0.0.0',
+      'Accept': 'application/json, text/javascript, */*; q=0.01',
+      'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8,en-GB;q=0.7,en-US;q=0.6',
+      'Accept-Encoding': 'gzip, deflate, br',
+      'Sec-CH-UA': '"Chromium";v="142", "Microsoft Edge";v="142", "Not_A Brand";v="99"',
+      'Sec-CH-UA-Mobile': '?0',
+      'Sec-CH-UA-Platform': '"Windows"',
+      ...(options?.headers as Record<string, string> || {})
+    };
+
+    // 如果是 POST/PUT/DELETE 请求，使用 AJAX 风格的请求头
+    if (method === 'POST' || method === 'PUT' || method === 'DELETE') {
+      headers['Content-Type'] = 'application/json; charset=UTF-8';
+      headers['X-Requested-With'] = 'XMLHttpRequest';
+      headers['Origin'] = new URL(this.site.baseUrl).origin;
+      headers['Referer'] = this.site.url('/');
+      headers['Sec-Fetch-Dest'] = 'empty';
+      headers['Sec-Fetch-Mode'] = 'cors';
+      headers['Sec-Fetch-Site'] = 'same-origin';
+
+      // 添加 CSRF Token，User API Key 不需要
+      if (!this.userApiKey) {
         if (this.csrfToken) {
           headers['X-CSRF-Token'] = this.csrfToken;
           console.log('[DiscourseApiClient] 添加 CSRF Token 到请求头');
         } else {
           console.warn('[DiscourseApiClient] 警告: CSRF Token 未找到，POST 请求可能失败');
         }
+      }
 
-        if (body) {
-          headers['Content-Length'] = Buffer.byteLength(body).toString();
-        }
-      } else {
-        // GET 请求使用导航风格的请求头
-        headers['Cache-Control'] = 'max-age=0';
-        headers['Sec-Fetch-Dest'] = 'document';
-        headers['Sec-Fetch-Mode'] = 'navigate';
-        headers['Sec-Fetch-Site'] = 'same-origin';
-        headers['Sec-Fetch-User'] = '?1';
-        headers['Upgrade-Insecure-Requests'] = '1';
+      if (body) {
+        headers['Content-Length'] = Buffer.byteLength(body).toString();
       }
+    } else {
+      // GET 请求使用导航风格的请求头
+      headers['Cache-Control'] = 'max-age=0';
+      headers['Sec-Fetch-Dest'] = 'document';
+      headers['Sec-Fetch-Mode'] = 'navigate';
+      headers['Sec-Fetch-Site'] = 'same-origin';
+      headers['Sec-Fetch-User'] = '?1';
+      headers['Upgrade-Insecure-Requests'] = '1';
+    }
 
-      const response = await this.httpsRequest(url, {
-        method: method,
-        headers: headers
-      }, body);
+    // 写操作可能已经生效，只有被限流时才重试
+    const idempotent = method === 'GET';
+    const maxRetries = getMaxRetries();
+
+    for (let attempt = 0; ; attempt++) {
+      let response: HttpResponse;
+      try {
+        response = await this.scheduler.run(() => this.httpsRequest(url, {
+          method: method,
+          headers: headers,
+          timeout: getRequestTimeout()
+        }, body, 3, token), token);
+      } catch (error: any) {
+        if (error instanceof vscode.CancellationError) {
+          throw error;
+        }
+        if (idempotent && RETRYABLE_ERROR_CODES.has(error.code) && attempt < maxRetries) {
+          const wait = getBackoffDelay(attempt);
+          console.warn(`[DiscourseApiClient] ${error.message}，${Math.round(wait / 1000)} 秒后重试 (${attempt + 1}/${maxRetries})`);
+          await delay(wait, token);
+          continue;
+        }
+        this.cache?.setOffline(true);
+        throw new NetworkError(error.code === 'ETIMEDOUT' ? vscode.l10n.t('请求超时') : vscode.l10n.t('网络连接失败: {0}', error.message), error.code);
+      }
+      this.cache?.setOffline(false);
+      this.updateCookies(response, accountId, cookieJar);
 
       console.log(`[DiscourseApiClient] 响应状态: ${response.statusCode} ${response.statusMessage}`);
 
-      if (response.statusCode < 200 || response.statusCode >= 300) {
-        if (response.statusCode === 401 || response.statusCode === 403) {
-          console.error(`[DiscourseApiClient] 认证失败: ${response.statusCode}`);
-          throw new Error('登录已过期，请重新登录');
+      // 人机验证页面重试也不会通过
+      const retryable = RETRYABLE_STATUS_CODES.has(response.statusCode)
+        && (idempotent || response.statusCode === 429)
+        && !isChallengeResponse(response);
+      if (retryable && attempt < maxRetries) {
+        const retryAfter = getRetryAfter(response);
+        if (retryAfter === undefined || retryAfter <= MAX_RETRY_AFTER) {
+          // 站点给出等待时间时按要求等待，再加上少量随机间隔错开重试
+          const wait = retryAfter !== undefined ? retryAfter + Math.random() * RETRY_BASE_DELAY : getBackoffDelay(attempt);
+          if (response.statusCode === 429) {
+            this.scheduler.pause(wait);
+          }
+          console.warn(`[DiscourseApiClient] ${response.statusCode}，${Math.round(wait / 1000)} 秒后重试 (${attempt + 1}/${maxRetries})`);
+          await delay(wait, token);
+          continue;
         }
-        console.error(`[DiscourseApiClient] API请求失败: ${response.statusCode} ${response.statusMessage}`);
-        console.error(`[DiscourseApiClient] 响应内容:`, response.body);
-        throw new Error(`API请求失败: ${response.statusCode} ${response.statusMessage}`);
       }
 
-      console.log(`[DiscourseApiClient] 请求成功: ${url}`);
+      return response;
+    }
+  }
+
+  /**
+   * 检查响应状态并解析 JSON
+   */
+  private parseResponse<T>(endpoint: string, response: HttpResponse): T {
+    // Cloudflare 验证页面可能以 403、503 甚至 200 返回，需要先于状态码判断
+    if (isChallengeResponse(response)) {
+      console.error(`[DiscourseApiClient] 需要完成人机验证: ${endpoint}`);
+      throw new ChallengeRequiredError(this.site.url(endpoint.replace(/\.json(?=\?|$)/, '')), response.statusCode);
+    }
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      if (response.statusCode === 401 || response.statusCode === 403) {
+        console.error(`[DiscourseApiClient] 认证失败: ${response.statusCode}`);
+        this._onDidRejectAuth.fire();
+        throw new AuthExpiredError(undefined, response.statusCode);
+      }
+      if (response.statusCode === 429) {
+        console.error(`[DiscourseApiClient] 请求过于频繁: ${endpoint}`);
+        throw new RateLimitedError(getRetryAfter(response));
+      }
+      console.error(`[DiscourseApiClient] API请求失败: ${response.statusCode} ${response.statusMessage}`);
+      console.error(`[DiscourseApiClient] 响应内容:`, response.body);
+      throw new ServerError(getErrorMessage(response) || vscode.l10n.t('API请求失败: {0} {1}', response.statusCode, response.statusMessage), response.statusCode);
+    }
+
+    console.log(`[DiscourseApiClient] 请求成功: ${endpoint}`);
+    // DELETE 等请求可能没有响应体
+    if (!response.body.trim()) {
+      return {} as T;
+    }
+    try {
       return JSON.parse(response.body) as T;
-    } catch (error: any) {
-      console.error(`[DiscourseApiClient] 请求异常: ${error.message}`);
-      throw error;
+    } catch {
+      console.error(`[DiscourseApiClient] 响应不是 JSON:`, response.body.substring(0, 500));
+      throw new ServerError(vscode.l10n.t('服务器返回了无法解析的内容'), response.statusCode);
     }
   }
 
+
+  /**
+   * 获取分类列表
+   * @returns 顶级分类，子分类在 subcategory_list 中
+   */
   async getCategories(): Promise<Category[]> {
-    const data = await this.request<CategoriesResponse>(DISCOURSE_API.ENDPOINTS.CATEGORIES);
+    const data = await this.request<CategoriesResponse>(DISCOURSE_API.ENDPOINTS.CATEGORIES_WITH_SUBCATEGORIES);
     return data.category_list.categories;
   }
 
@@ -326,8 +713,62 @@ export class DiscourseApiClient {
     return data.topic_list.topics;
   }
 
-  async getTopic(topicId: number): Promise<TopicDetail> {
-    return await this.request<TopicDetail>(DISCOURSE_API.ENDPOINTS.TOPIC(topicId));
+  /**
+   * 按排序方式获取话题列表
+   * @param filter 排序方式和排行榜周期
+   * @param categoryId 分类ID，不传则获取全部分类
+   * @param perPage 每页数量
+   * @returns 第一页话题，以及下一页的地址
+   */
+  async getTopicList(filter: TopicListFilter, categoryId?: number, perPage?: number, token?: vscode.CancellationToken): Promise<TopicListResponse> {
+    const path = categoryId !== undefined
+      ? DISCOURSE_API.ENDPOINTS.CATEGORY_TOPIC_LIST(categoryId, filter.mode)
+      : DISCOURSE_API.ENDPOINTS.TOPIC_LIST(filter.mode);
+    const params = new URLSearchParams();
+    if (filter.mode === 'top' && filter.period) {
+      params.set('period', filter.period);
+    }
+    if (perPage) {
+      params.set('per_page', String(perPage));
+    }
+    const query = params.toString();
+    const endpoint = query ? `${path}?${query}` : path;
+
+    console.log(`[DiscourseApiClient] 获取话题列表: ${endpoint}`);
+    return await this.request<TopicListResponse>(endpoint, undefined, token);
+  }
+
+  /**
+   * 获取标签下的话题列表
+   * @param tagName 标签名称
+   * @param perPage 每页数量
+   * @returns 第一页话题，以及下一页的地址
+   */
+  async getTagTopics(tagName: string, perPage?: number, token?: vscode.CancellationToken): Promise<TopicListResponse> {
+    const path = DISCOURSE_API.ENDPOINTS.TAG_TOPICS(tagName);
+    const endpoint = perPage ? `${path}?per_page=${perPage}` : path;
+
+    console.log(`[DiscourseApiClient] 获取标签话题: ${endpoint}`);
+    return await this.request<TopicListResponse>(endpoint, undefined, token);
+  }
+
+  /**
+   * 获取话题列表的下一页
+   * @param moreTopicsUrl 上一页返回的 more_topics_url
+   * @returns 下一页话题，以及再下一页的地址
+   */
+  async getMoreTopics(moreTopicsUrl: string): Promise<TopicListResponse> {
+    // more_topics_url 指向网页地址，需要加上 .json 后缀
+    const [path, query] = this.site.toPath(moreTopicsUrl).split('?');
+    const jsonPath = path.endsWith('.json') ? path : `${path}.json`;
+    const endpoint = query ? `${jsonPath}?${query}` : jsonPath;
+
+    console.log(`[DiscourseApiClient] 获取下一页话题: ${endpoint}`);
+    return await this.request<TopicListResponse>(endpoint);
+  }
+
+  async getTopic(topicId: number, token?: vscode.CancellationToken): Promise<TopicDetail> {
+    return await this.request<TopicDetail>(DISCOURSE_API.ENDPOINTS.TOPIC(topicId), undefined, token);
   }
 
   async getTopicPosts(topicId: number): Promise<Post[]> {
@@ -339,9 +780,10 @@ export class DiscourseApiClient {
    * 加载话题的更多回复
    * @param topicId 话题ID
    * @param postIds 要加载的 post ID 数组
+   * @param token 取消加载
    * @returns 回复列表
    */
-  async loadMoreTopicPosts(topicId: number, postIds: number[]): Promise<Post[]> {
+  async loadMoreTopicPosts(topicId: number, postIds: number[], token?: vscode.CancellationToken): Promise<Post[]> {
     // 尝试使用 /posts 端点
     const postIdsParam = postIds.map(id => `post_ids[]=${id}`).join('&');
     const endpoint = `/t/${topicId}/posts.json?${postIdsParam}`;
@@ -355,7 +797,7 @@ export class DiscourseApiClient {
         posts: Post[];
         stream?: number[];
       };
-    }>(endpoint);
+    }>(endpoint, undefined, token);
 
     console.log(`[DiscourseApiClient] API 响应结构:`, Object.keys(data));
 
@@ -370,23 +812,323 @@ export class DiscourseApiClient {
     return posts;
   }
 
+  /**
+   * 上报阅读时间，和网页端一样记录每个帖子在屏幕上停留的时间
+   * @param topicId 话题ID
+   * @param timings 楼层号到阅读时间（毫秒）的映射
+   * @param topicTime 这段时间内阅读话题的总时间（毫秒）
+   */
+  async postTopicTimings(topicId: number, timings: Record<number, number>, topicTime: number): Promise<void> {
+    console.log(`[DiscourseApiClient] 上报话题 ${topicId} 的阅读时间: ${Object.keys(timings).length} 个帖子, ${topicTime}ms`);
+
+    await this.request<void>(DISCOURSE_API.ENDPOINTS.TOPIC_TIMINGS, {
+      method: 'POST',
+      body: JSON.stringify({
+        topic_id: topicId,
+        topic_time: topicTime,
+        timings
+      })
+    });
+    // 已加载的列表在内存中更新未读数量，这里只让话题内容重新获取
+    await this.invalidateTopicPosts(topicId);
+  }
+
+  /**
+   * 设置话题的通知级别
+   * @param topicId 话题ID
+   * @param level 关注、跟踪、普通或免打扰
+   */
+  async setTopicNotificationLevel(topicId: number, level: NotificationLevel): Promise<void> {
+    console.log(`[DiscourseApiClient] 设置话题 ${topicId} 的通知级别: ${level}`);
+
+    await this.request<{ success: string }>(DISCOURSE_API.ENDPOINTS.TOPIC_NOTIFICATIONS(topicId), {
+      method: 'POST',
+      body: JSON.stringify({ notification_level: level })
+    });
+    await this.invalidateTopic(topicId);
+  }
+
+  /**
+   * 设置分类的通知级别，免打扰的分类不会出现在最新列表中
+   * @param categoryId 分类ID
+   * @param level 关注、跟踪、普通或免打扰
+   */
+  async setCategoryNotificationLevel(categoryId: number, level: NotificationLevel): Promise<void> {
+    console.log(`[DiscourseApiClient] 设置分类 ${categoryId} 的通知级别: ${level}`);
+
+    await this.request<{ success: string }>(DISCOURSE_API.ENDPOINTS.CATEGORY_NOTIFICATIONS(categoryId), {
+      method: 'POST',
+      body: JSON.stringify({ notification_level: level })
+    });
+    await this.invalidateCategories();
+  }
+
+  /**
+   * 全文搜索
+   * @param query 搜索词，支持 @user、#category、in:bookmarks、order:latest、status:open 等高级过滤
+   * @param page 页码，从 1 开始
+   * @returns 搜索结果
+   */
+  async search(query: string, page: number = 1): Promise<SearchResponse> {
+    const endpoint = `${DISCOURSE_API.ENDPOINTS.SEARCH}?q=${encodeURIComponent(query)}&page=${page}`;
+    console.log(`[DiscourseApiClient] 搜索: ${query}，第 ${page} 页`);
+    return await this.request<SearchResponse>(endpoint);
+  }
+
+  /**
+   * 获取单条帖子，包含原始 Markdown 内容
+   * @param postId 帖子ID
+   * @returns 帖子对象
+   */
+  async getPost(postId: number): Promise<Post> {
+    return await this.request<Post>(DISCOURSE_API.ENDPOINTS.POST(postId));
+  }
+
   /**
    * 创建回复
    * @param topicId 话题ID
    * @param content 回复内容
+   * @param replyToPostNumber 回复的楼层号，不传则回复话题
+   * @param draftKey 对应的草稿，发布成功后服务端会删除该草稿
    * @returns 创建的回复对象
    */
-  async createReply(topicId: number, content: string): Promise<Post> {
-    const endpoint = '/posts.json';
+  async createReply(topicId: number, content: string, replyToPostNumber?: number, draftKey?: string): Promise<Post> {
+    const endpoint = DISCOURSE_API.ENDPOINTS.POSTS_CREATE;
+    const body = JSON.stringify({
+      raw: content,
+      topic_id: topicId,
+      reply_to_post_number: replyToPostNumber,
+      draft_key: draftKey
+    });
+
+    const post = await this.request<Post>(endpoint, {
+      method: 'POST',
+      body: body
+    });
+    await this.invalidateTopic(topicId);
+    return post;
+  }
+
+  /**
+   * 创建新话题
+   * @param title 标题
+   * @param content 正文 Markdown
+   * @param categoryId 分类ID
+   * @param tags 标签
+   * @param draftKey 对应的草稿，发布成功后服务端会删除该草稿
+   * @returns 话题的首帖，包含 topic_id 和 topic_slug
+   */
+  async createTopic(title: string, content: string, categoryId: number, tags: string[] = [], draftKey?: string): Promise<Post> {
+    const body = JSON.stringify({
+      title: title,
+      raw: content,
+      category: categoryId,
+      tags: tags,
+      archetype: 'regular',
+      draft_key: draftKey
+    });
+
+    const post = await this.request<Post>(DISCOURSE_API.ENDPOINTS.POSTS_CREATE, {
+      method: 'POST',
+      body: body
+    });
+    if (post.topic_id) {
+      await this.invalidateTopic(post.topic_id);
+    }
+    return post;
+  }
+
+  /**
+   * 发送私信
+   * @param title 标题
+   * @param content 正文 Markdown
+   * @param recipients 收件人用户名
+   * @param draftKey 对应的草稿，发送成功后服务端会删除该草稿
+   * @returns 私信的首帖，包含 topic_id 和 topic_slug
+   */
+  async createPrivateMessage(title: string, content: string, recipients: string[], draftKey?: string): Promise<Post> {
     const body = JSON.stringify({
+      title: title,
       raw: content,
-      topic_id: topicId
+      archetype: 'private_message',
+      target_recipients: recipients.join(','),
+      draft_key: draftKey
+    });
+
+    const post = await this.request<Post>(DISCOURSE_API.ENDPOINTS.POSTS_CREATE, {
+      method: 'POST',
+      body: body
+    });
+    if (post.topic_id) {
+      await this.invalidateTopic(post.topic_id);
+    }
+    return post;
+  }
+
+  /**
+   * 获取当前登录的用户
+   * @returns 当前用户
+   */
+  async getCurrentUser(): Promise<CurrentUser> {
+    let data: SessionResponse;
+    try {
+      data = await this.request<SessionResponse>(DISCOURSE_API.ENDPOINTS.SESSION_CURRENT);
+    } catch (error) {
+      // 未登录时该接口返回 404
+      if (error instanceof ServerError && error.statusCode === 404) {
+        throw new AuthExpiredError(vscode.l10n.t('请先登录'), 404);
+      }
+      throw error;
+    }
+    if (!data.current_user) {
+      throw new AuthExpiredError(vscode.l10n.t('请先登录'));
+    }
+    return data.current_user;
+  }
+
+  /**
+   * 获取私信列表
+   * @param username 当前用户名
+   * @param box 私信列表类型
+   * @param page 页码，从 0 开始
+   * @returns 私信话题列表
+   */
+  async getPrivateMessages(username: string, box: PrivateMessageBox, page: number = 0): Promise<Topic[]> {
+    const endpoint = `${DISCOURSE_API.ENDPOINTS.PRIVATE_MESSAGES(box, username)}?page=${page}`;
+    console.log(`[DiscourseApiClient] 获取私信列表: ${box}`);
+    const data = await this.request<TopicListResponse>(endpoint);
+    return data.topic_list.topics;
+  }
+
+  /**
+   * 按用户名搜索用户，用于选择私信收件人
+   * @param term 搜索词
+   * @returns 用户列表
+   */
+  async searchUsers(term: string): Promise<BasicUser[]> {
+    const endpoint = `${DISCOURSE_API.ENDPOINTS.USER_SEARCH}?term=${encodeURIComponent(term)}&include_groups=false`;
+    const data = await this.request<UserSearchResponse>(endpoint);
+    return data.users || [];
+  }
+
+  /**
+   * 获取用户的书签列表
+   * @param username 当前用户名
+   * @returns 书签列表，按时间倒序
+   */
+  async getBookmarks(username: string): Promise<Bookmark[]> {
+    const data = await this.request<BookmarksResponse>(DISCOURSE_API.ENDPOINTS.USER_BOOKMARKS(username));
+    return data.user_bookmark_list?.bookmarks || data.bookmarks || [];
+  }
+
+  /**
+   * 添加书签
+   * @param bookmarkableType 书签对象类型
+   * @param bookmarkableId 帖子ID或话题ID
+   * @param reminderAt 提醒时间，不传则不提醒
+   * @returns 新书签的ID
+   */
+  async createBookmark(bookmarkableType: BookmarkableType, bookmarkableId: number, reminderAt?: Date): Promise<number> {
+    const body = JSON.stringify({
+      bookmarkable_type: bookmarkableType,
+      bookmarkable_id: bookmarkableId,
+      reminder_at: reminderAt?.toISOString()
+    });
+
+    console.log(`[DiscourseApiClient] 添加书签: ${bookmarkableType} ${bookmarkableId}`);
+
+    const data = await this.request<{ id: number }>(DISCOURSE_API.ENDPOINTS.BOOKMARKS, {
+      method: 'POST',
+      body: body
+    });
+    return data.id;
+  }
+
+  /**
+   * 修改书签的提醒时间
+   * @param bookmarkId 书签ID
+   * @param reminderAt 提醒时间，null 表示清除提醒
+   */
+  async updateBookmark(bookmarkId: number, reminderAt: Date | null): Promise<void> {
+    const body = JSON.stringify({
+      reminder_at: reminderAt ? reminderAt.toISOString() : null
+    });
+
+    await this.request<{ success: string }>(DISCOURSE_API.ENDPOINTS.BOOKMARK(bookmarkId), {
+      method: 'PUT',
+      body: body
+    });
+  }
+
+  /**
+   * 删除书签
+   * @param bookmarkId 书签ID
+   */
+  async deleteBookmark(bookmarkId: number): Promise<void> {
+    console.log(`[DiscourseApiClient] 删除书签 ${bookmarkId}`);
+    await this.request<{ success: string }>(DISCOURSE_API.ENDPOINTS.BOOKMARK(bookmarkId), {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * 获取全部标签
+   * @returns 标签列表
+   */
+  async getTags(): Promise<Tag[]> {
+    const data = await this.request<TagsResponse>(DISCOURSE_API.ENDPOINTS.TAGS);
+    return data.tags || [];
+  }
+
+  /**
+   * 获取当前用户的草稿列表
+   * @returns 草稿列表
+   */
+  async getDrafts(): Promise<Draft[]> {
+    const data = await this.request<DraftsResponse>(DISCOURSE_API.ENDPOINTS.DRAFTS);
+    return data.drafts || [];
+  }
+
+  /**
+   * 获取单个草稿
+   * @param draftKey 草稿键，例如 topic_123、new_topic
+   * @returns 草稿内容和序号
+   */
+  async getDraft(draftKey: string): Promise<DraftResponse> {
+    return await this.request<DraftResponse>(DISCOURSE_API.ENDPOINTS.DRAFT(draftKey));
+  }
+
+  /**
+   * 保存草稿
+   * @param draftKey 草稿键
+   * @param data 草稿内容
+   * @param sequence 草稿序号，用于检测其他客户端的修改
+   * @returns 新的草稿序号
+   */
+  async saveDraft(draftKey: string, data: DraftData, sequence: number): Promise<number> {
+    const body = JSON.stringify({
+      draft_key: draftKey,
+      data: JSON.stringify(data),
+      sequence: sequence
     });
 
-    return await this.request<Post>(endpoint, {
+    const result = await this.request<{ success: string; draft_sequence: number }>(DISCOURSE_API.ENDPOINTS.DRAFTS, {
       method: 'POST',
       body: body
     });
+    return result.draft_sequence;
+  }
+
+  /**
+   * 删除草稿
+   * @param draftKey 草稿键
+   * @param sequence 草稿序号
+   */
+  async deleteDraft(draftKey: string, sequence: number): Promise<void> {
+    const endpoint = `${DISCOURSE_API.ENDPOINTS.DRAFT(draftKey)}?sequence=${sequence}`;
+    await this.request<{ success: string }>(endpoint, {
+      method: 'DELETE'
+    });
   }
 
   /**
@@ -409,17 +1151,20 @@ export class DiscourseApiClient {
   }
 
   /**
-   * 获取通知列表
-   * @returns 通知列表
+   * 获取通知列表，每页 60 条，按时间倒序
+   * @param offset 跳过的通知数量，用于分页
+   * @returns 通知列表和通知总数
    */
-  async getNotifications(): Promise<Notification[]> {
-    const endpoint = '/notifications.json';
-    console.log('[DiscourseApiClient] 获取通知列表');
+  async getNotifications(offset: number = 0): Promise<NotificationsResponse> {
+    const endpoint = offset > 0
+      ? `${DISCOURSE_API.ENDPOINTS.NOTIFICATIONS}?offset=${offset}`
+      : DISCOURSE_API.ENDPOINTS.NOTIFICATIONS;
+    console.log(`[DiscourseApiClient] 获取通知列表, offset=${offset}`);
 
     const data = await this.request<NotificationsResponse>(endpoint);
     console.log(`[DiscourseApiClient] 获取到 ${data.notifications.length} 条通知`);
 
-    return data.notifications;
+    return data;
   }
 
   /**
@@ -428,7 +1173,6 @@ export class DiscourseApiClient {
    * @returns 是否成功
    */
   async markNotificationAsRead(notificationId: number): Promise<boolean> {
-    const endpoint = `/notifications/mark-read.json`;
     const body = JSON.stringify({
       id: notificationId
     });
@@ -436,7 +1180,7 @@ export class DiscourseApiClient {
     console.log(`[DiscourseApiClient] 标记通知 ${notificationId} 为已读`);
 
     try {
-      await this.request<{ success: boolean }>(endpoint, {
+      await this.request<{ success: boolean }>(DISCOURSE_API.ENDPOINTS.NOTIFICATIONS_MARK_READ, {
         method: 'PUT',
         body: body
       });
@@ -447,7 +1191,31 @@ export class DiscourseApiClient {
     }
   }
 
-  async validateCookie(cookieStr: string, userAgentStr: string): Promise<boolean> {
+  /**
+   * 将全部通知标记为已读
+   */
+  async markAllNotificationsAsRead(): Promise<void> {
+    console.log('[DiscourseApiClient] 标记全部通知为已读');
+
+    await this.request<{ success: boolean }>(DISCOURSE_API.ENDPOINTS.NOTIFICATIONS_MARK_READ, {
+      method: 'PUT'
+    });
+  }
+
+  /**
+   * 吊销当前使用的 User API Key，退出登录时调用
+   */
+  async revokeUserApiKey(): Promise<void> {
+    await this.ensureCookieLoaded();
+    if (!this.userApiKey) {
+      return;
+    }
+    await this.request<{ success: string }>(DISCOURSE_API.ENDPOINTS.USER_API_KEY_REVOKE, {
+      method: 'POST'
+    });
+  }
+
+    async validateCookie(cookieStr: string, userAgentStr: string): Promise<boolean> {
     try {
       console.log('[DiscourseApiClient] 开始验证Cookie和User-Agent...');
       console.log('[DiscourseApiClient] Cookie原始长度:', cookieStr.length);
@@ -470,7 +1238,7 @@ export class DiscourseApiClient {
       console.log('[DiscourseApiClient] User-Agent:', cleanedUserAgent);
 
       // 先尝试用户信息端点
-      let url = `${DISCOURSE_API.BASE_URL}${DISCOURSE_API.ENDPOINTS.USER_INFO}`;
+      let url = this.site.url(DISCOURSE_API.ENDPOINTS.USER_INFO);
       console.log('[DiscourseApiClient] 验证URL:', url);
 
       let response = await this.httpsRequest(url, {
@@ -505,7 +1273,7 @@ export class DiscourseApiClient {
       // 如果用户信息端点失败，尝试使用分类端点验证
       if (response.statusCode !== 200) {
         console.log('[DiscourseApiClient] 用户信息端点失败，尝试分类端点...');
-        url = `${DISCOURSE_API.BASE_URL}${DISCOURSE_API.ENDPOINTS.CATEGORIES}`;
+        url = this.site.url(DISCOURSE_API.ENDPOINTS.CATEGORIES);
         console.log('[DiscourseApiClient] 备用验证URL:', url);
 
         response = await this.httpsRequest(url, {
@@ -561,3 +1329,84 @@ export class DiscourseApiClient {
     }
   }
 }
+
+/**
+ * 第 attempt 次重试前的等待时间，指数增长并加入随机抖动
+ */
+function getBackoffDelay(attempt: number): number {
+  const base = Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY);
+  return base / 2 + Math.random() * base / 2;
+}
+
+/**
+ * 从 Retry-After 响应头或 Discourse 限流响应的 extras.wait_seconds 中获取等待时间
+ * @returns 毫秒，没有给出时返回 undefined
+ */
+function getRetryAfter(response: HttpResponse): number | undefined {
+  const header = response.headers?.['retry-after'];
+  if (header) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(header);
+    if (!isNaN(date)) {
+      return Math.max(date - Date.now(), 0);
+    }
+  }
+
+  try {
+    const waitSeconds = JSON.parse(response.body)?.extras?.wait_seconds;
+    if (typeof waitSeconds === 'number') {
+      return waitSeconds * 1000;
+    }
+  } catch {
+    // 响应不是 JSON
+  }
+  return undefined;
+}
+
+/**
+ * 请求超时时间（毫秒），来自用户设置
+ */
+function getRequestTimeout(): number {
+  const seconds = vscode.workspace.getConfiguration('linuxdo').get<number>('network.requestTimeout', 30);
+  return Math.max(seconds, 5) * 1000;
+}
+
+/**
+ * 失败后的最大重试次数，来自用户设置
+ */
+function getMaxRetries(): number {
+  const retries = vscode.workspace.getConfiguration('linuxdo').get<number>('network.maxRetries', 3);
+  return Math.min(Math.max(retries, 0), 10);
+}
+
+/**
+ * 判断响应是否是 Cloudflare 的人机验证页面
+ */
+function isChallengeResponse(response: HttpResponse): boolean {
+  if (response.headers?.['cf-mitigated'] === 'challenge') {
+    return true;
+  }
+  const contentType: string = response.headers?.['content-type'] || '';
+  if (!contentType.includes('text/html')) {
+    return false;
+  }
+  return /challenge-platform|cf-chl-|<title>Just a moment\.\.\.<\/title>/i.test(response.body);
+}
+
+/**
+ * 提取 Discourse 错误响应中的说明，例如 {"errors": ["..."]}
+ */
+function getErrorMessage(response: HttpResponse): string | undefined {
+  try {
+    const errors = JSON.parse(response.body)?.errors;
+    if (Array.isArray(errors) && errors.length > 0) {
+      return errors.join('；');
+    }
+  } catch {
+    // 响应不是 JSON
+  }
+  return undefined;
+}
@@ -0,0 +1,453 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as net from 'net';
+import * as tls from 'tls';
+import * as https from 'https';
+import * as dns from 'dns';
+import type { Duplex } from 'stream';
+
+/**
+ * 合并扩展设置、VS Code 设置和环境变量后的网络设置
+ */
+interface NetworkConfig {
+  // 代理地址，为空时直接连接
+  proxy?: string;
+  // HTTP 代理的 Proxy-Authorization 请求头，代理地址中带有用户名时不使用
+  proxyAuthorization?: string;
+  // 不使用代理的主机
+  noProxy: string[];
+  // 通过代理连接时是否校验证书
+  strictSSL: boolean;
+  // 额外信任的 CA 证书文件
+  caFiles: string[];
+}
+
+interface Agents {
+  // 直接连接时使用，没有额外证书时为空，使用 Node 的默认 Agent
+  direct?: https.Agent;
+  proxy?: https.Agent;
+  noProxy: string[];
+}
+
+// 支持的代理协议
+const PROXY_PROTOCOLS = new Set(['http:', 'https:', 'socks:', 'socks5:', 'socks5h:']);
+
+// 各代理协议的默认端口
+const DEFAULT_PROXY_PORTS: Record<string, number> = {
+  'http:': 80,
+  'https:': 443,
+  'socks:': 1080,
+  'socks5:': 1080,
+  'socks5h:': 1080
+};
+
+// 连接代理并建立隧道的超时时间
+const PROXY_CONNECT_TIMEOUT = 15000;
+
+// SOCKS5 连接失败的原因，显示时再翻译
+const SOCKS_REPLY_MESSAGES: Record<number, string> = {
+  0x01: '代理服务器内部错误',
+  0x02: '代理规则不允许该连接',
+  0x03: '网络不可达',
+  0x04: '主机不可达',
+  0x05: '连接被拒绝',
+  0x06: 'TTL 已过期',
+  0x07: '不支持的命令',
+  0x08: '不支持的地址类型'
+};
+
+let cachedKey: string | undefined;
+let cachedAgents: Agents | undefined;
+
+/**
+ * 获取请求使用的 Agent，设置修改后自动重新创建
+ * @param url 请求地址，用于判断是否跳过代理
+ * @returns 为空时使用 Node 的默认 Agent
+ */
+export function getAgent(url: string): https.Agent | undefined {
+  const config = getNetworkConfig();
+  const key = JSON.stringify(config);
+  if (!cachedAgents || key !== cachedKey) {
+    cachedAgents?.direct?.destroy();
+    cachedAgents?.proxy?.destroy();
+    cachedAgents = createAgents(config);
+    cachedKey = key;
+  }
+
+  const { direct, proxy, noProxy } = cachedAgents;
+  if (proxy && !isNoProxy(new URL(url), noProxy)) {
+    return proxy;
+  }
+  return direct;
+}
+
+/**
+ * 读取网络设置
+ * 代理地址依次取扩展设置、VS Code 的 http.proxy 和 HTTPS_PROXY 等环境变量
+ */
+function getNetworkConfig(): NetworkConfig {
+  const config = vscode.workspace.getConfiguration('linuxdo');
+  const httpConfig = vscode.workspace.getConfiguration('http');
+  // http.proxySupport 为 off 时不使用 VS Code 和环境变量中的代理
+  const useSystemProxy = httpConfig.get<string>('proxySupport', 'override') !== 'off';
+
+  const proxy = config.get<string>('network.proxy', '').trim()
+    || (useSystemProxy ? httpConfig.get<string>('proxy', '').trim() || getEnv('HTTPS_PROXY', 'ALL_PROXY') : undefined)
+    || undefined;
+
+  const noProxy = [
+    ...config.get<string[]>('network.noProxy', []),
+    ...(useSystemProxy ? httpConfig.get<string[]>('noProxy', []) : []),
+    ...(useSystemProxy ? (getEnv('NO_PROXY') || '').split(',') : [])
+  ].map(entry => entry.trim().toLowerCase()).filter(Boolean);
+
+  // 为空时跟随 VS Code 的 http.proxyStrictSSL
+  const strictSSL = config.get<boolean | null>('network.proxyStrictSSL', null) ?? httpConfig.get<boolean>('proxyStrictSSL', true);
+
+  return {
+    proxy,
+    proxyAuthorization: httpConfig.get<string | null>('proxyAuthorization', null) || undefined,
+    noProxy,
+    strictSSL,
+    caFiles: config.get<string[]>('network.caCertificates', []).map(file => file.trim()).filter(Boolean)
+  };
+}
+
+/**
+ * 读取环境变量，大写和小写的名称都可以
+ */
+function getEnv(...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name] || process.env[name.toLowerCase()];
+    if (value?.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function createAgents(config: NetworkConfig): Agents {
+  const ca = loadCaCertificates(config.caFiles);
+  const agents: Agents = { noProxy: config.noProxy };
+
+  if (ca) {
+    agents.direct = new https.Agent({ keepAlive: true, ca });
+  }
+
+  if (config.proxy) {
+    const proxyUrl = parseProxyUrl(config.proxy);
+    if (proxyUrl) {
+      console.log(`[ProxyAgent] 使用代理: ${proxyUrl.protocol}//${proxyUrl.host}`);
+      agents.proxy = new TunnelAgent(proxyUrl, config.proxyAuthorization, {
+        keepAlive: true,
+        ca,
+        rejectUnauthorized: config.strictSSL
+      });
+    }
+  }
+
+  return agents;
+}
+
+/**
+ * 解析代理地址，没有协议时按 HTTP 代理处理
+ */
+function parseProxyUrl(proxy: string): URL | undefined {
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(proxy) ? proxy : `http://${proxy}`);
+    if (!PROXY_PROTOCOLS.has(url.protocol)) {
+      throw new Error(vscode.l10n.t('不支持的代理协议 {0}', url.protocol));
+    }
+    return url;
+  } catch (error: any) {
+    console.error('[ProxyAgent] 代理地址无效:', error.message);
+    vscode.window.showWarningMessage(vscode.l10n.t('代理地址无效，将直接连接: {0}', error.message));
+    return undefined;
+  }
+}
+
+/**
+ * 读取额外的 CA 证书，与系统内置的证书一起使用
+ * @returns 没有额外证书时为空
+ */
+function loadCaCertificates(files: string[]): string[] | undefined {
+  const certificates: string[] = [];
+  for (const file of files) {
+    const filePath = file.startsWith('~') ? `${os.homedir()}${file.slice(1)}` : file;
+    try {
+      certificates.push(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error: any) {
+      console.error(`[ProxyAgent] 读取 CA 证书失败: ${filePath}`, error.message);
+      vscode.window.showWarningMessage(vscode.l10n.t('无法读取 CA 证书 {0}: {1}', filePath, error.message));
+    }
+  }
+  return certificates.length > 0 ? [...tls.rootCertificates, ...certificates] : undefined;
+}
+
+/**
+ * 判断主机是否在不使用代理的列表中
+ * 支持 *、域名后缀（example.com 同时匹配子域名，.example.com 和 *.example.com 只匹配子域名）和 主机:端口
+ */
+function isNoProxy(url: URL, noProxy: string[]): boolean {
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const port = url.port || '443';
+
+  return noProxy.some(entry => {
+    if (entry === '*') {
+      return true;
+    }
+    let pattern = entry;
+    const portMatch = /^([^:\]]+|\[.+\]):(\d+)$/.exec(pattern);
+    if (portMatch) {
+      if (portMatch[2] !== port) {
+        return false;
+      }
+      pattern = portMatch[1];
+    }
+    pattern = pattern.replace(/^\[|\]$/g, '');
+    if (pattern.startsWith('*.') || pattern.startsWith('.')) {
+      return host.endsWith(pattern.replace(/^\*/, ''));
+    }
+    return host === pattern || host.endsWith(`.${pattern}`);
+  });
+}
+
+/**
+ * 通过代理建立隧道后再进行 TLS 握手的 Agent
+ * HTTP 代理使用 CONNECT 方法，SOCKS 代理使用 SOCKS5 协议
+ */
+class TunnelAgent extends https.Agent {
+  constructor(
+    private proxyUrl: URL,
+    private proxyAuthorization: string | undefined,
+    options: https.AgentOptions
+  ) {
+    super(options);
+  }
+
+  createConnection(
+    options: https.RequestOptions,
+    callback?: (err: Error | null, stream: Duplex) => void
+  ): Duplex | null | undefined {
+    const host = options.host || options.hostname || 'localhost';
+    const port = Number(options.port) || 443;
+
+    this.connect(host, port).then(socket => {
+      const tlsSocket = tls.connect({
+        ...(options as tls.ConnectionOptions),
+        socket,
+        servername: options.servername || (net.isIP(host) ? undefined : host)
+      });
+      callback?.(null, tlsSocket);
+    }, error => {
+      callback?.(error, undefined as unknown as Duplex);
+    });
+
+    // 连接建立后通过回调返回
+    return undefined;
+  }
+
+  private async connect(host: string, port: number): Promise<net.Socket> {
+    const socket = await connectToProxy(this.proxyUrl, this.options.rejectUnauthorized !== false, this.options.ca);
+    // 握手期间继续使用连接代理的超时，隧道建立后交给请求自己的超时设置
+    const onTimeout = () => {
+      socket.destroy(proxyError(vscode.l10n.t('连接代理服务器超时'), 'ETIMEDOUT'));
+    };
+    socket.on('timeout', onTimeout);
+    try {
+      if (this.proxyUrl.protocol.startsWith('socks')) {
+        await socksConnect(socket, this.proxyUrl, host, port);
+      } else {
+        await httpConnect(socket, this.getProxyAuthorization(), host, port);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    } finally {
+      socket.off('timeout', onTimeout);
+      socket.setTimeout(0);
+    }
+    return socket;
+  }
+
+  private getProxyAuthorization(): string | undefined {
+    if (this.proxyUrl.username) {
+      const credentials = `${decodeURIComponent(this.proxyUrl.username)}:${decodeURIComponent(this.proxyUrl.password)}`;
+      return `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+    return this.proxyAuthorization;
+  }
+}
+
+/**
+ * 连接到代理服务器，HTTPS 代理需要先完成 TLS 握手
+ */
+function connectToProxy(proxyUrl: URL, strictSSL: boolean, ca: https.AgentOptions['ca']): Promise<net.Socket> {
+  const host = proxyUrl.hostname.replace(/^\[|\]$/g, '');
+  const port = Number(proxyUrl.port) || DEFAULT_PROXY_PORTS[proxyUrl.protocol];
+
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket: net.Socket = proxyUrl.protocol === 'https:'
+      ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host, rejectUnauthorized: strictSSL, ca })
+      : net.connect({ host, port });
+
+    // 隧道建立前请求的超时设置还没有生效，需要单独限制
+    // 监听器在连接成功或失败后移除，避免请求之后设置的超时也触发它
+    const onTimeout = () => {
+      socket.destroy(proxyError(vscode.l10n.t('连接代理服务器超时'), 'ETIMEDOUT'));
+    };
+    const onError = (error: Error) => {
+      socket.off('timeout', onTimeout);
+      reject(error);
+    };
+    socket.setTimeout(PROXY_CONNECT_TIMEOUT);
+    socket.on('timeout', onTimeout);
+    socket.once(proxyUrl.protocol === 'https:' ? 'secureConnect' : 'connect', () => {
+      socket.off('error', onError);
+      socket.off('timeout', onTimeout);
+      resolve(socket);
+    });
+    socket.once('error', onError);
+  });
+}
+
+/**
+ * 通过 HTTP 代理的 CONNECT 方法建立隧道
+ */
+async function httpConnect(socket: net.Socket, proxyAuthorization: string | undefined, host: string, port: number): Promise<void> {
+  const authority = `${net.isIPv6(host) ? `[${host}]` : host}:${port}`;
+  const lines = [`CONNECT ${authority} HTTP/1.1`, `Host: ${authority}`];
+  if (proxyAuthorization) {
+    lines.push(`Proxy-Authorization: ${proxyAuthorization}`);
+  }
+  socket.write(`${lines.join('\r\n')}\r\n\r\n`);
+
+  const response = await readBytes(socket, buffer => {
+    const end = buffer.indexOf('\r\n\r\n');
+    return end === -1 ? undefined : end + 4;
+  });
+  const statusLine = response.toString('latin1').split('\r\n')[0];
+  const statusCode = Number(statusLine.split(' ')[1]);
+  if (statusCode === 407) {
+    throw proxyError(vscode.l10n.t('代理服务器需要认证，请在代理地址中填写用户名和密码'), 'EPROXYAUTH');
+  }
+  if (statusCode < 200 || statusCode >= 300) {
+    throw proxyError(vscode.l10n.t('代理服务器拒绝连接: {0}', statusLine), 'EPROXY');
+  }
+}
+
+/**
+ * 通过 SOCKS5 代理建立隧道
+ * socks5h 由代理服务器解析域名，其他情况在本地解析
+ */
+async function socksConnect(socket: net.Socket, proxyUrl: URL, host: string, port: number): Promise<void> {
+  const username = decodeURIComponent(proxyUrl.username);
+  const password = decodeURIComponent(proxyUrl.password);
+
+  // 协商认证方式：0x00 不认证，0x02 用户名密码
+  socket.write(Buffer.from(username ? [0x05, 0x02, 0x00, 0x02] : [0x05, 0x01, 0x00]));
+  const [version, method] = await readBytes(socket, () => 2);
+  if (version !== 0x05) {
+    throw proxyError(vscode.l10n.t('代理服务器不支持 SOCKS5'), 'EPROXY');
+  }
+  if (method === 0x02) {
+    const user = Buffer.from(username);
+    const pass = Buffer.from(password);
+    socket.write(Buffer.concat([Buffer.from([0x01, user.length]), user, Buffer.from([pass.length]), pass]));
+    const [, status] = await readBytes(socket, () => 2);
+    if (status !== 0x00) {
+      throw proxyError(vscode.l10n.t('SOCKS5 代理认证失败，请检查用户名和密码'), 'EPROXYAUTH');
+    }
+  } else if (method !== 0x00) {
+    throw proxyError(vscode.l10n.t('SOCKS5 代理需要认证，请在代理地址中填写用户名和密码'), 'EPROXYAUTH');
+  }
+
+  const portBuffer = Buffer.alloc(2);
+  portBuffer.writeUInt16BE(port);
+  socket.write(Buffer.concat([
+    Buffer.from([0x05, 0x01, 0x00]),
+    await encodeSocksAddress(host, proxyUrl.protocol === 'socks5h:'),
+    portBuffer
+  ]));
+
+  const reply = await readBytes(socket, buffer => {
+    if (buffer.length < 5) {
+      return undefined;
+    }
+    // 回复中绑定地址的长度取决于地址类型
+    switch (buffer[3]) {
+      case 0x01: return 10;
+      case 0x04: return 22;
+      case 0x03: return 7 + buffer[4];
+      default: return buffer.length;
+    }
+  });
+  if (reply[1] !== 0x00) {
+    throw proxyError(vscode.l10n.t('SOCKS5 代理连接失败: {0}', SOCKS_REPLY_MESSAGES[reply[1]] ? vscode.l10n.t(SOCKS_REPLY_MESSAGES[reply[1]]) : vscode.l10n.t('错误码 {0}', reply[1])), 'EPROXY');
+  }
+}
+
+/**
+ * 编码 SOCKS5 请求中的目标地址
+ * @param remoteDns 是否由代理服务器解析域名
+ */
+async function encodeSocksAddress(host: string, remoteDns: boolean): Promise<Buffer> {
+  let address = host;
+  if (!remoteDns && !net.isIP(host)) {
+    address = (await dns.promises.lookup(host, { family: 4 })).address;
+  }
+  if (net.isIPv4(address)) {
+    return Buffer.from([0x01, ...address.split('.').map(Number)]);
+  }
+  // 域名和 IPv6 地址都交给代理服务器处理
+  const name = Buffer.from(address);
+  return Buffer.concat([Buffer.from([0x03, name.length]), name]);
+}
+
+/**
+ * 从代理连接中读取一段完整的回复，多读到的数据放回连接中
+ * @param getLength 根据已读到的数据返回回复的长度，还不能确定时返回 undefined
+ */
+function readBytes(socket: net.Socket, getLength: (buffer: Buffer) => number | undefined): Promise<Buffer> {
+  return new Promise<Buffer>((resolve, reject) => {
+    let buffer = Buffer.alloc(0);
+
+    const cleanup = () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    };
+    const onData = (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      const length = getLength(buffer);
+      if (length === undefined || buffer.length < length) {
+        return;
+      }
+      cleanup();
+      socket.pause();
+      if (buffer.length > length) {
+        socket.unshift(buffer.subarray(length));
+      }
+      resolve(buffer.subarray(0, length));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(proxyError(vscode.l10n.t('代理服务器关闭了连接'), 'ECONNRESET'));
+    };
+
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+    // 上一段回复读完后连接被暂停，需要恢复读取
+    socket.resume();
+  });
+}
+
+function proxyError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+
+interface QueuedRequest {
+  start: () => void;
+  cancel: () => void;
+  cancelListener?: vscode.Disposable;
+}
+
+// 并发请求数的范围
+const MIN_CONCURRENCY = 1;
+const MAX_CONCURRENCY = 10;
+
+/**
+ * 请求队列，限制同时进行的请求数量
+ * 站点返回 429 后暂停整个队列，避免继续触发限流
+ */
+export class RequestScheduler {
+  private active: number = 0;
+  private queue: QueuedRequest[] = [];
+  private pausedUntil: number = 0;
+  private resumeTimer?: NodeJS.Timeout;
+
+  /**
+   * 排队执行请求
+   * @param task 实际发送请求的函数
+   * @param token 取消后尚未开始的请求会移出队列
+   */
+  async run<T>(task: () => Promise<T>, token?: vscode.CancellationToken): Promise<T> {
+    await this.acquire(token);
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.next();
+    }
+  }
+
+  /**
+   * 暂停发送新请求，正在进行的请求不受影响
+   */
+  pause(ms: number): void {
+    const until = Date.now() + ms;
+    if (until > this.pausedUntil) {
+      console.log(`[RequestScheduler] 请求过于频繁，暂停 ${Math.ceil(ms / 1000)} 秒`);
+      this.pausedUntil = until;
+    }
+  }
+
+  private acquire(token?: vscode.CancellationToken): Promise<void> {
+    if (token?.isCancellationRequested) {
+      return Promise.reject(new vscode.CancellationError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: QueuedRequest = {
+        start: resolve,
+        cancel: () => reject(new vscode.CancellationError())
+      };
+      request.cancelListener = token?.onCancellationRequested(() => {
+        const index = this.queue.indexOf(request);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          request.cancel();
+        }
+      });
+      this.queue.push(request);
+      this.next();
+    });
+  }
+
+  private next(): void {
+    const pauseLeft = this.pausedUntil - Date.now();
+    if (pauseLeft > 0) {
+      if (!this.resumeTimer) {
+        this.resumeTimer = setTimeout(() => {
+          this.resumeTimer = undefined;
+          this.next();
+        }, pauseLeft);
+      }
+      return;
+    }
+
+    while (this.active < getMaxConcurrency() && this.queue.length > 0) {
+      const request = this.queue.shift()!;
+      request.cancelListener?.dispose();
+      this.active++;
+      request.start();
+    }
+  }
+}
+
+/**
+ * 等待一段时间，取消时立即结束
+ */
+export function delay(ms: number, token?: vscode.CancellationToken): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (token?.isCancellationRequested) {
+      reject(new vscode.CancellationError());
+      return;
+    }
+    const listener = token?.onCancellationRequested(() => {
+      clearTimeout(timer);
+      reject(new vscode.CancellationError());
+    });
+    const timer = setTimeout(() => {
+      listener?.dispose();
+      resolve();
+    }, ms);
+  });
+}
+
+/**
+ * 最大并发请求数，来自用户设置
+ */
+function getMaxConcurrency(): number {
+  const concurrency = vscode.workspace.getConfiguration('linuxdo').get<number>('network.maxConcurrentRequests', 4);
+  return Math.min(Math.max(concurrency, MIN_CONCURRENCY), MAX_CONCURRENCY);
+}
@@ -0,0 +1,334 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+export interface CacheEntry {
+  endpoint: string;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+}
+
+interface CacheIndexEntry {
+  file: string;
+  size: number;
+  storedAt: number;
+  accessedAt: number;
+}
+
+interface CachePolicy {
+  pattern: RegExp;
+  // 超过这个时间后先返回缓存，再在后台重新验证
+  ttl: number;
+}
+
+const MINUTE = 60 * 1000;
+
+// 只缓存浏览用的只读接口，按接口类型设置有效期
+const CACHE_POLICIES: CachePolicy[] = [
+  { pattern: /^\/categories\.json/, ttl: 60 * MINUTE },
+  { pattern: /^\/tags\.json/, ttl: 60 * MINUTE },
+  { pattern: /^\/t\/\d+(\/posts)?\.json/, ttl: 5 * MINUTE },
+  { pattern: /^\/(latest|top|hot|new|unread|posted)\.json/, ttl: 2 * MINUTE },
+  { pattern: /^\/c\/.+\.json/, ttl: 2 * MINUTE },
+  { pattern: /^\/tag\/.+\.json/, ttl: 2 * MINUTE }
+];
+
+// 超过这个时间的缓存即使离线也不再使用
+const MAX_STALE_AGE = 7 * 24 * 60 * MINUTE;
+
+// 缓存总大小和条目数上限，超出时淘汰最久未访问的条目
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 2000;
+
+// 后台更新通知的合并间隔
+const UPDATE_DEBOUNCE_MS = 1000;
+
+const INDEX_FILE = 'index.json';
+
+/**
+ * 保存在 globalStorageUri 中的接口响应缓存
+ */
+export class ResponseCache implements vscode.Disposable {
+  private directory: vscode.Uri;
+  private accountId: string;
+  private index?: Map<string, CacheIndexEntry>;
+  private loadingIndex?: Promise<Map<string, CacheIndexEntry>>;
+  private saveIndexTimer?: NodeJS.Timeout;
+  // 早于这个时间保存的缓存视为过期
+  private expiredBefore: number = 0;
+
+  private offline: boolean = false;
+  private updatedEndpoints: Set<string> = new Set();
+  private updateTimer?: NodeJS.Timeout;
+
+  private _onDidChangeOffline = new vscode.EventEmitter<boolean>();
+  readonly onDidChangeOffline: vscode.Event<boolean> = this._onDidChangeOffline.event;
+
+  // 后台重新验证得到新内容时触发，参数为更新的接口
+  private _onDidUpdate = new vscode.EventEmitter<string[]>();
+  readonly onDidUpdate: vscode.Event<string[]> = this._onDidUpdate.event;
+
+  /**
+   * @param accountId 每个账号使用单独的缓存目录
+   */
+  constructor(private storageUri: vscode.Uri, accountId: string) {
+    this.accountId = accountId;
+    this.directory = this.getDirectory(accountId);
+  }
+
+  /**
+   * 当前使用的缓存所属的账号
+   */
+  getAccountId(): string {
+    return this.accountId;
+  }
+
+  /**
+   * 切换到另一个账号的缓存
+   */
+  async setAccount(accountId: string): Promise<void> {
+    const directory = this.getDirectory(accountId);
+    if (directory.toString() === this.directory.toString()) {
+      return;
+    }
+
+    // 先保存当前账号的索引
+    if (this.saveIndexTimer) {
+      clearTimeout(this.saveIndexTimer);
+      this.saveIndexTimer = undefined;
+      await this.saveIndex();
+    }
+    this.accountId = accountId;
+    this.directory = directory;
+    this.index = undefined;
+    this.loadingIndex = undefined;
+    this.updatedEndpoints.clear();
+    this.expiredBefore = 0;
+    console.log(`[ResponseCache] 切换到账号 ${accountId} 的缓存`);
+  }
+
+  private getDirectory(accountId: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, 'http-cache', accountId);
+  }
+
+  /**
+   * 获取接口的有效期，不可缓存的接口返回 undefined
+   */
+  getTtl(endpoint: string): number | undefined {
+    return CACHE_POLICIES.find(policy => policy.pattern.test(endpoint))?.ttl;
+  }
+
+  isFresh(entry: CacheEntry): boolean {
+    const ttl = this.getTtl(entry.endpoint);
+    return ttl !== undefined && entry.storedAt > this.expiredBefore && Date.now() - entry.storedAt < ttl;
+  }
+
+  /**
+   * 将现有缓存标记为过期，手动刷新时使用
+   * 过期的缓存仍会先显示，再在后台更新
+   */
+  expire(): void {
+    this.expiredBefore = Date.now();
+  }
+
+  /**
+   * 删除指定接口的缓存，例如发布回复或修改设置之后，下次请求时重新获取
+   * @param endpointOrPattern 接口地址或匹配接口地址的正则
+   */
+  async invalidate(endpointOrPattern: string | RegExp): Promise<void> {
+    const index = await this.loadIndex();
+    const endpoints = typeof endpointOrPattern === 'string'
+      ? [endpointOrPattern]
+      : [...index.keys()].filter(endpoint => endpointOrPattern.test(endpoint));
+    for (const endpoint of endpoints) {
+      await this.delete(endpoint);
+    }
+    if (endpoints.length > 0) {
+      console.log(`[ResponseCache] 已删除 ${endpoints.length} 条缓存: ${endpointOrPattern}`);
+    }
+  }
+
+  async get(endpoint: string): Promise<CacheEntry | undefined> {
+    const index = await this.loadIndex();
+    const item = index.get(endpoint);
+    if (!item) {
+      return undefined;
+    }
+
+    if (Date.now() - item.storedAt > MAX_STALE_AGE) {
+      await this.delete(endpoint);
+      return undefined;
+    }
+
+    try {
+      const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.directory, item.file));
+      item.accessedAt = Date.now();
+      this.scheduleSaveIndex();
+      return JSON.parse(Buffer.from(content).toString('utf-8')) as CacheEntry;
+    } catch (error: any) {
+      console.error(`[ResponseCache] 读取缓存失败: ${endpoint}`, error.message);
+      index.delete(endpoint);
+      this.scheduleSaveIndex();
+      return undefined;
+    }
+  }
+
+  async set(endpoint: string, body: string, etag?: string, lastModified?: string): Promise<void> {
+    const entry: CacheEntry = { endpoint, body, etag, lastModified, storedAt: Date.now() };
+    const content = Buffer.from(JSON.stringify(entry), 'utf-8');
+    const file = `${crypto.createHash('sha1').update(endpoint).digest('hex')}.json`;
+
+    try {
+      await vscode.workspace.fs.createDirectory(this.directory);
+      await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.directory, file), content);
+    } catch (error: any) {
+      console.error(`[ResponseCache] 写入缓存失败: ${endpoint}`, error.message);
+      return;
+    }
+
+    const index = await this.loadIndex();
+    index.set(endpoint, { file, size: content.length, storedAt: entry.storedAt, accessedAt: entry.storedAt });
+    await this.evict(index);
+    this.scheduleSaveIndex();
+  }
+
+  /**
+   * 服务端返回 304 后刷新缓存时间
+   */
+  async touch(entry: CacheEntry): Promise<void> {
+    await this.set(entry.endpoint, entry.body, entry.etag, entry.lastModified);
+  }
+
+  /**
+   * 清空当前账号的缓存，例如重新登录或退出登录后
+   */
+  async clear(): Promise<void> {
+    this.index = new Map();
+    this.updatedEndpoints.clear();
+    try {
+      await vscode.workspace.fs.delete(this.directory, { recursive: true, useTrash: false });
+    } catch {
+      // 目录不存在
+    }
+    console.log('[ResponseCache] 缓存已清空');
+  }
+
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * 记录网络状态，请求失败并使用缓存时为离线
+   */
+  setOffline(offline: boolean): void {
+    if (this.offline !== offline) {
+      this.offline = offline;
+      console.log(`[ResponseCache] ${offline ? '网络不可用，使用缓存内容' : '网络已恢复'}`);
+      this._onDidChangeOffline.fire(offline);
+    }
+  }
+
+  /**
+   * 后台重新验证得到新内容，合并后统一通知
+   */
+  notifyUpdated(endpoint: string): void {
+    this.updatedEndpoints.add(endpoint);
+    if (this.updateTimer) {
+      return;
+    }
+    this.updateTimer = setTimeout(() => {
+      this.updateTimer = undefined;
+      const endpoints = [...this.updatedEndpoints];
+      this.updatedEndpoints.clear();
+      this._onDidUpdate.fire(endpoints);
+    }, UPDATE_DEBOUNCE_MS);
+  }
+
+  dispose(): void {
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer);
+    }
+    if (this.saveIndexTimer) {
+      clearTimeout(this.saveIndexTimer);
+      this.saveIndex();
+    }
+    this._onDidChangeOffline.dispose();
+    this._onDidUpdate.dispose();
+  }
+
+  private async delete(endpoint: string): Promise<void> {
+    const index = await this.loadIndex();
+    const item = index.get(endpoint);
+    if (!item) {
+      return;
+    }
+    index.delete(endpoint);
+    this.scheduleSaveIndex();
+    try {
+      await vscode.workspace.fs.delete(vscode.Uri.joinPath(this.directory, item.file));
+    } catch {
+      // 文件已不存在
+    }
+  }
+
+  private async evict(index: Map<string, CacheIndexEntry>): Promise<void> {
+    let totalSize = 0;
+    index.forEach(item => totalSize += item.size);
+    if (totalSize <= MAX_CACHE_BYTES && index.size <= MAX_CACHE_ENTRIES) {
+      return;
+    }
+
+    const entries = [...index.entries()].sort((a, b) => a[1].accessedAt - b[1].accessedAt);
+    for (const [endpoint, item] of entries) {
+      if (totalSize <= MAX_CACHE_BYTES && index.size <= MAX_CACHE_ENTRIES) {
+        break;
+      }
+      totalSize -= item.size;
+      await this.delete(endpoint);
+    }
+  }
+
+  private loadIndex(): Promise<Map<string, CacheIndexEntry>> {
+    if (this.index) {
+      return Promise.resolve(this.index);
+    }
+    if (!this.loadingIndex) {
+      this.loadingIndex = (async () => {
+        let index = new Map<string, CacheIndexEntry>();
+        try {
+          const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.directory, INDEX_FILE));
+          index = new Map(Object.entries(JSON.parse(Buffer.from(content).toString('utf-8'))));
+          console.log(`[ResponseCache] 已加载 ${index.size} 条缓存`);
+        } catch {
+          // 首次使用，没有索引文件
+        }
+        this.index = index;
+        return index;
+      })();
+    }
+    return this.loadingIndex;
+  }
+
+  private scheduleSaveIndex(): void {
+    if (this.saveIndexTimer) {
+      return;
+    }
+    this.saveIndexTimer = setTimeout(() => {
+      this.saveIndexTimer = undefined;
+      this.saveIndex();
+    }, UPDATE_DEBOUNCE_MS);
+  }
+
+  private async saveIndex(): Promise<void> {
+    if (!this.index) {
+      return;
+    }
+    try {
+      const content = JSON.stringify(Object.fromEntries(this.index));
+      await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.directory, INDEX_FILE), Buffer.from(content, 'utf-8'));
+    } catch (error: any) {
+      console.error('[ResponseCache] 保存缓存索引失败:', error.message);
+    }
+  }
+}
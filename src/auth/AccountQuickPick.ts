@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { CookieStorage } from './CookieStorage';
+import { getAvatarUrl } from '../webview/PostRenderer';
+import type { Site } from '../sites/Site';
+
+interface AccountQuickPickItem extends vscode.QuickPickItem {
+  // 为空表示添加账号
+  accountId?: string;
+}
+
+/**
+ * 选择要切换到的账号
+ * @returns 账号 ID，选择"添加账号"时返回 'add'，取消时返回 undefined
+ */
+export async function pickAccount(site: Site, cookieStorage: CookieStorage): Promise<string | undefined> {
+  const accounts = await cookieStorage.getAccounts();
+  const activeAccount = await cookieStorage.getActiveAccount();
+
+  const items: AccountQuickPickItem[] = accounts.map(account => {
+    const avatarUrl = getAvatarUrl(account.avatarTemplate, site);
+    return {
+      label: account.username || vscode.l10n.t('未登录的账号'),
+      description: account.id === activeAccount.id ? vscode.l10n.t('当前账号') : undefined,
+      iconPath: avatarUrl ? vscode.Uri.parse(avatarUrl) : new vscode.ThemeIcon('account'),
+      accountId: account.id
+    };
+  });
+  items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+  items.push({ label: vscode.l10n.t('$(add) 添加账号') });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: vscode.l10n.t('切换 {0} 账号', site.name),
+    placeHolder: vscode.l10n.t('选择账号')
+  });
+  if (!selected) {
+    return undefined;
+  }
+  return selected.accountId ?? 'add';
+}
@@ -1,20 +1,148 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import { CookieStorage } from './CookieStorage';
 import { DiscourseApiClient } from '../api/DiscourseApiClient';
+import { DISCOURSE_API } from '../constants/Config';
+import { escapeHtml, getNonce } from '../webview/WebviewUtils';
+import type { Site } from '../sites/Site';
+
+// 授权页面上显示的应用名称和申请的权限
+const APPLICATION_NAME = 'Linux.do Explorer';
+const USER_API_SCOPES = ['read', 'write', 'notifications', 'session_info'];
+
+// 浏览器授权需要在这段时间内完成
+const AUTHORIZATION_TIMEOUT = 10 * 60 * 1000;
+
+const CLIENT_ID_KEY = 'linuxdo.userApiClientId';
+
+interface PendingAuthorization {
+  nonce: string;
+  privateKey: string;
+  clientId: string;
+  createdAt: number;
+}
+
+export class AuthenticationManager implements vscode.UriHandler {
+  // 等待浏览器回调的授权请求
+  private pendingAuthorization?: PendingAuthorization;
+
+  private loginPanel?: vscode.WebviewPanel;
 
-export class AuthenticationManager {
   constructor(
     private context: vscode.ExtensionContext,
+    private site: Site,
     private cookieStorage: CookieStorage,
     private apiClient: DiscourseApiClient
   ) { }
 
+  /**
+   * 通过 User API Key 登录：生成 RSA 密钥对，在浏览器中打开授权页面，
+   * 用户同意后站点把加密的 Key 通过 vscode:// 链接交回给 handleUri
+   */
+  async authorizeInBrowser(): Promise<void> {
+    console.log('[AuthenticationManager] 开始浏览器授权登录');
+
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const clientId = this.getClientId();
+
+    // 通过 site 参数区分回调属于哪个站点
+    const redirectUri = await vscode.env.asExternalUri(
+      vscode.Uri.parse(`${vscode.env.uriScheme}://${this.context.extension.id}/auth?site=${encodeURIComponent(this.site.id)}`)
+    );
+
+    const params = new URLSearchParams({
+      application_name: APPLICATION_NAME,
+      client_id: clientId,
+      scopes: USER_API_SCOPES.join(','),
+      public_key: publicKey,
+      nonce,
+      auth_redirect: redirectUri.toString(true),
+      // Node 不再支持 PKCS#1 v1.5 解密，要求站点使用 OAEP 填充
+      padding: 'oaep'
+    });
+
+    this.pendingAuthorization = { nonce, privateKey, clientId, createdAt: Date.now() };
+
+    await vscode.env.openExternal(vscode.Uri.parse(`${this.site.url(DISCOURSE_API.ENDPOINTS.USER_API_KEY_NEW)}?${params.toString()}`));
+    vscode.window.showInformationMessage(vscode.l10n.t('已在浏览器中打开授权页面，点击“授权”后会自动返回 VS Code 完成登录'));
+  }
+
+  /**
+   * 处理授权页面跳转回来的 vscode://TooAme.linuxdo-explorer/auth?site=...&payload=...
+   */
+  async handleUri(uri: vscode.Uri): Promise<void> {
+    if (uri.path !== '/auth') {
+      return;
+    }
+    console.log('[AuthenticationManager] 收到授权回调');
+
+    const pending = this.pendingAuthorization;
+    if (!pending || Date.now() - pending.createdAt > AUTHORIZATION_TIMEOUT) {
+      vscode.window.showErrorMessage(vscode.l10n.t('授权已过期，请重新登录'));
+      return;
+    }
+
+    // payload 是 Base64，经过 URL 解码后 "+" 可能变成空格
+    const match = uri.query.match(/(?:^|&)payload=([^&]+)/);
+    if (!match) {
+      vscode.window.showErrorMessage(vscode.l10n.t('授权失败：没有收到授权数据'));
+      return;
+    }
+    const payload = decodeURIComponent(match[1]).replace(/ /g, '+');
+
+    try {
+      const decrypted = crypto.privateDecrypt(
+        { key: pending.privateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING },
+        Buffer.from(payload, 'base64')
+      );
+      const data = JSON.parse(decrypted.toString('utf-8')) as { key: string; nonce: string };
+
+      if (data.nonce !== pending.nonce) {
+        throw new Error(vscode.l10n.t('授权数据校验失败'));
+      }
+
+      this.pendingAuthorization = undefined;
+      await this.cookieStorage.saveUserApiKey({ key: data.key, clientId: pending.clientId });
+      await this.apiClient.refreshCookie();
+
+      console.log('[AuthenticationManager] User API Key 授权成功');
+      vscode.window.showInformationMessage(vscode.l10n.t('登录成功!'));
+      this.loginPanel?.dispose();
+      vscode.commands.executeCommand('linuxdo.refresh');
+    } catch (error: any) {
+      console.error('[AuthenticationManager] 解析授权数据失败:', error);
+      vscode.window.showErrorMessage(vscode.l10n.t('授权失败: {0}', error.message));
+    }
+  }
+
+  /**
+   * 每个安装固定使用同一个 client_id，重新授权时站点会替换旧的 Key
+   */
+  private getClientId(): string {
+    let clientId = this.context.globalState.get<string>(CLIENT_ID_KEY);
+    if (!clientId) {
+      clientId = crypto.randomBytes(16).toString('hex');
+      this.context.globalState.update(CLIENT_ID_KEY, clientId);
+    }
+    return clientId;
+  }
+
   async showLoginWebview(): Promise<void> {
     console.log('[AuthenticationManager] 显示登录Webview');
 
+    if (this.loginPanel) {
+      this.loginPanel.reveal();
+      return;
+    }
+
     const panel = vscode.window.createWebviewPanel(
       'linuxdoLogin',
-      'Linux.do 登录',
+      vscode.l10n.t('{0} 登录', this.site.name),
       vscode.ViewColumn.One,
       {
         enableScripts: true,
@@ -25,6 +153,11 @@ export class AuthenticationManager {
 
     panel.webview.html = this.getLoginHtml(panel.webview);
 
+    this.loginPanel = panel;
+    panel.onDidDispose(() => {
+      this.loginPanel = undefined;
+    });
+
     panel.webview.onDidReceiveMessage(
       async message => {
         console.log('[AuthenticationManager] 收到webview消息:', message.command);
@@ -32,8 +165,11 @@ export class AuthenticationManager {
           case 'submitCookie':
             await this.handleCookieSubmit(message.cookie, message.userAgent, panel);
             break;
+          case 'authorize':
+            await this.authorizeInBrowser();
+            break;
           case 'openBrowser':
-            vscode.env.openExternal(vscode.Uri.parse('https://linux.do'));
+            vscode.env.openExternal(vscode.Uri.parse(this.site.url('/')));
             break;
           case 'ready':
             console.log('[AuthenticationManager] Webview已就绪');
@@ -57,24 +193,33 @@ export class AuthenticationManager {
         await this.cookieStorage.saveCookie(cookie);
         await this.cookieStorage.saveUserAgent(userAgent);
         await this.apiClient.refreshCookie();
-        vscode.window.showInformationMessage('登录成功!');
+        vscode.window.showInformationMessage(vscode.l10n.t('登录成功!'));
         panel.dispose();
         vscode.commands.executeCommand('linuxdo.refresh');
       } else {
         console.error('[AuthenticationManager] Cookie或User-Agent验证失败');
         panel.webview.postMessage({ command: 'validationFailed' });
-        vscode.window.showErrorMessage('Cookie或User-Agent无效，请重新获取');
+        vscode.window.showErrorMessage(vscode.l10n.t('Cookie或User-Agent无效，请重新获取'));
       }
     } catch (error: any) {
       console.error('[AuthenticationManager] Cookie验证异常:', error);
       panel.webview.postMessage({ command: 'validationFailed' });
-      vscode.window.showErrorMessage(`验证失败: ${error.message}`);
+      vscode.window.showErrorMessage(vscode.l10n.t('验证失败: {0}', error.message));
     }
   }
 
   private getLoginHtml(webview: vscode.Webview): string {
     // 生成一个nonce来允许内联脚本执行
     const nonce = getNonce();
+    // 翻译后转义，用于页面文本
+    const t = (message: string, ...args: string[]) => escapeHtml(vscode.l10n.t(message, ...args));
+    // 页面脚本中显示的状态文字
+    const scriptMessages = {
+      cookieRequired: vscode.l10n.t('请先输入 Cookie 内容'),
+      userAgentRequired: vscode.l10n.t('请先输入 User-Agent 内容'),
+      validating: vscode.l10n.t('正在验证 Cookie 和 User-Agent...'),
+      validationFailed: vscode.l10n.t('Cookie 或 User-Agent 验证失败，请检查是否正确复制')
+    };
 
     return `<!DOCTYPE html>
     <html>
@@ -82,7 +227,7 @@ export class AuthenticationManager {
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
         <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
-        <title>Linux.do 登录</title>
+        <title>${t('{0} 登录', this.site.name)}</title>
         <style>
           :root {
             --container-paddding: 20px;
@@ -121,6 +266,10 @@ export class AuthenticationManager {
             margin-bottom: 15px;
             opacity: 0.9;
           }
+          .instructions p {
+            opacity: 0.8;
+            line-height: 1.6;
+          }
           .instructions ol {
             padding-left: 20px;
             opacity: 0.8;
@@ -219,61 +368,73 @@ export class AuthenticationManager {
       </head>
       <body>
         <div class="container">
-          <h1>Linux.do 登录</h1>
+          <h1>${t('{0} 登录', this.site.name)}</h1>
 
           <div class="instructions">
-            <h3>如何获取 Cookie 和 User-Agent</h3>
+            <h3>${t('浏览器授权登录（推荐）')}</h3>
+            <p>${t('在浏览器中登录 {0} 并点击“授权”，完成后会自动返回 VS Code，无需复制 Cookie。', this.site.name)}</p>
+          </div>
+
+          <div class="button-group">
+            <button id="authorizeBtn">
+              ${t('在浏览器中授权登录')}
+            </button>
+          </div>
+
+          <div class="instructions" style="margin-top: 40px;">
+            <h3>${t('或者手动填写 Cookie 和 User-Agent')}</h3>
             <ol>
-              <li>点击下方按钮在浏览器中打开 linux.do 并登录账号</li>
-              <li>登录成功后，按 F12 打开浏览器开发者工具</li>
-              <li>切换到 网络 (Network) 标签页</li>
-              <li>刷新页面 F5 或 Ctrl+R</li>
-              <li>点击左侧任意一个请求</li>
-              <li>在右侧找到 请求标头 (Request Headers)</li>
-              <li>找到 <code>Cookie:</code> 字段，复制其完整内容到下方第一个输入框</li>
-              <li>找到 <code>User-Agent:</code> 字段，复制其完整内容到下方第二个输入框</li>
+              <li>${t('点击下方按钮在浏览器中打开 {0} 并登录账号', this.site.name)}</li>
+              <li>${t('登录成功后，按 F12 打开浏览器开发者工具')}</li>
+              <li>${t('切换到 网络 (Network) 标签页')}</li>
+              <li>${t('刷新页面 F5 或 Ctrl+R')}</li>
+              <li>${t('点击左侧任意一个请求')}</li>
+              <li>${t('在右侧找到 请求标头 (Request Headers)')}</li>
+              <li>${vscode.l10n.t('找到 <code>Cookie:</code> 字段，复制其完整内容到下方第一个输入框')}</li>
+              <li>${vscode.l10n.t('找到 <code>User-Agent:</code> 字段，复制其完整内容到下方第二个输入框')}</li>
             </ol>
           </div>
 
           <div class="button-group">
             <button id="openBrowserBtn" class="secondary-button">
-              在浏览器中打开 Linux.do
+              ${t('在浏览器中打开 {0}', this.site.name)}
             </button>
           </div>
 
           <div class="input-group">
-            <label for="cookieInput">Cookie 内容</label>
+            <label for="cookieInput">${t('Cookie 内容')}</label>
             <textarea
               id="cookieInput"
-              placeholder="在此粘贴 Cookie 内容..."
+              placeholder="${t('在此粘贴 Cookie 内容...')}"
             ></textarea>
           </div>
 
           <div class="input-group">
-            <label for="userAgentInput">User-Agent 内容</label>
+            <label for="userAgentInput">${t('User-Agent 内容')}</label>
             <textarea
               id="userAgentInput"
-              placeholder="在此粘贴 User-Agent 内容..."
+              placeholder="${t('在此粘贴 User-Agent 内容...')}"
               style="min-height: 60px;"
             ></textarea>
           </div>
 
           <div class="button-group">
             <button id="submitBtn">
-              提交登录
+              ${t('提交登录')}
             </button>
           </div>
 
           <div id="status" class="status"></div>
 
           <div class="tip">
-            提示：Cookie 和 User-Agent 包含您的登录凭证和浏览器指纹信息，请妥善保管，不要分享给他人。<br>
-            使用相同的 Cookie 和 User-Agent 可以避免被 Cloudflare 拦截。
+            ${t('提示：Cookie 和 User-Agent 包含您的登录凭证和浏览器指纹信息，请妥善保管，不要分享给他人。')}<br>
+            ${t('使用相同的 Cookie 和 User-Agent 可以避免被 Cloudflare 拦截。')}
           </div>
         </div>
 
         <script nonce="${nonce}">
           const vscode = acquireVsCodeApi();
+          const messages = ${JSON.stringify(scriptMessages)};
           
           function openBrowser() {
             vscode.postMessage({ command: 'openBrowser' });
@@ -287,17 +448,17 @@ export class AuthenticationManager {
             const userAgent = userAgentInput.value.trim();
 
             if (!cookie) {
-              showStatus('请先输入 Cookie 内容', 'error');
+              showStatus(messages.cookieRequired, 'error');
               return;
             }
 
             if (!userAgent) {
-              showStatus('请先输入 User-Agent 内容', 'error');
+              showStatus(messages.userAgentRequired, 'error');
               return;
             }
 
             submitBtn.disabled = true;
-            showStatus('正在验证 Cookie 和 User-Agent...', 'validating');
+            showStatus(messages.validating, 'validating');
 
             vscode.postMessage({
               command: 'submitCookie',
@@ -318,16 +479,19 @@ export class AuthenticationManager {
 
             switch (message.command) {
               case 'validating':
-                showStatus('正在验证 Cookie 和 User-Agent...', 'validating');
+                showStatus(messages.validating, 'validating');
                 break;
               case 'validationFailed':
                 if (submitBtn) submitBtn.disabled = false;
-                showStatus('Cookie 或 User-Agent 验证失败，请检查是否正确复制', 'error');
+                showStatus(messages.validationFailed, 'error');
                 break;
             }
           });
 
           document.addEventListener('DOMContentLoaded', () => {
+            document.getElementById('authorizeBtn').addEventListener('click', () => {
+              vscode.postMessage({ command: 'authorize' });
+            });
             document.getElementById('openBrowserBtn').addEventListener('click', openBrowser);
             document.getElementById('submitBtn').addEventListener('click', submitCookie);
             
@@ -345,12 +509,3 @@ export class AuthenticationManager {
   }
 }
 
-// 生成随机nonce用于CSP
-function getNonce() {
-  let text = '';
-  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  for (let i = 0; i < 32; i++) {
-    text += possible.charAt(Math.floor(Math.random() * possible.length));
-  }
-  return text;
-}
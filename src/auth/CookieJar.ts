@@ -0,0 +1,96 @@
+// 过期时间的变化小于这个值时忽略
+const EXPIRES_TOLERANCE = 60 * 1000;
+
+/**
+ * 维护请求使用的 Cookie 字符串，并合并响应中的 Set-Cookie
+ */
+export class CookieJar {
+  private cookies: Map<string, string> = new Map();
+  private expires: Map<string, number> = new Map();
+
+  /**
+   * @param cookieHeader 请求头中的 Cookie 字符串，例如 "_t=xxx; _forum_session=yyy"
+   */
+  constructor(cookieHeader: string) {
+    for (const part of cookieHeader.split(';')) {
+      const index = part.indexOf('=');
+      if (index > 0) {
+        this.cookies.set(part.slice(0, index).trim(), part.slice(index + 1).trim());
+      }
+    }
+  }
+
+  /**
+   * 合并响应中的 Set-Cookie
+   * @returns Cookie 是否有变化
+   */
+  setCookies(setCookieHeaders: string[] | string | undefined): boolean {
+    if (!setCookieHeaders) {
+      return false;
+    }
+
+    let changed = false;
+    for (const header of Array.isArray(setCookieHeaders) ? setCookieHeaders : [setCookieHeaders]) {
+      const [pair, ...attributes] = header.split(';');
+      const index = pair.indexOf('=');
+      if (index <= 0) {
+        continue;
+      }
+      const name = pair.slice(0, index).trim();
+      const value = pair.slice(index + 1).trim();
+
+      const expiresAt = getExpiresAt(attributes);
+      // 过期时间已到或值为空表示删除这个 Cookie
+      if (!value || (expiresAt !== undefined && expiresAt <= Date.now())) {
+        changed = this.cookies.delete(name) || changed;
+        this.expires.delete(name);
+        continue;
+      }
+
+      if (this.cookies.get(name) !== value) {
+        this.cookies.set(name, value);
+        changed = true;
+      }
+      // Max-Age 每次算出的时间都不同，相差不大时不算变化，避免频繁保存
+      if (expiresAt !== undefined && Math.abs((this.expires.get(name) ?? 0) - expiresAt) > EXPIRES_TOLERANCE) {
+        this.expires.set(name, expiresAt);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * 获取 Cookie 的过期时间，只有通过 Set-Cookie 收到过的 Cookie 才知道
+   */
+  getExpiresAt(name: string): number | undefined {
+    return this.expires.get(name);
+  }
+
+  toString(): string {
+    return [...this.cookies].map(([name, value]) => `${name}=${value}`).join('; ');
+  }
+}
+
+/**
+ * 从 Set-Cookie 的属性中计算过期时间，Max-Age 优先于 Expires
+ */
+function getExpiresAt(attributes: string[]): number | undefined {
+  let expiresAt: number | undefined;
+  for (const attribute of attributes) {
+    const [key, value = ''] = attribute.split('=').map(part => part.trim());
+    const name = key.toLowerCase();
+    if (name === 'max-age') {
+      const seconds = Number(value);
+      if (!isNaN(seconds)) {
+        return Date.now() + seconds * 1000;
+      }
+    } else if (name === 'expires') {
+      const date = Date.parse(value);
+      if (!isNaN(date)) {
+        expiresAt = date;
+      }
+    }
+  }
+  return expiresAt;
+}
@@ -1,34 +1,225 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import type { Site } from '../sites/Site';
+
+/**
+ * 通过 /user-api-key/new 授权得到的 User API Key
+ */
+export interface UserApiKey {
+  key: string;
+  clientId: string;
+}
+
+/**
+ * 保存的账号，用户名和头像在登录后从 /session/current.json 获取
+ */
+export interface Account {
+  id: string;
+  username?: string;
+  avatarTemplate?: string;
+}
+
+/**
+ * 登录凭证变化的原因
+ */
+export type CookieChange = 'login' | 'logout' | 'switch';
+
+interface AccountsState {
+  activeId: string;
+  accounts: Account[];
+}
+
+// 支持多账号之前的唯一账号，继续使用原来的存储键
+const DEFAULT_ACCOUNT_ID = 'default';
 
 export class CookieStorage {
   private readonly STORAGE_KEY = 'linuxdo-cookie';
   private readonly USER_AGENT_KEY = 'linuxdo-user-agent';
+  private readonly USER_API_KEY_KEY = 'linuxdo-user-api-key';
+  private readonly SESSION_EXPIRES_KEY = 'linuxdo-session-expires';
+  private readonly ACCOUNTS_KEY = 'linuxdo-accounts';
+
+  private accountsState?: AccountsState;
+
+  // 登录、退出登录或切换账号时触发
+  private _onDidChangeCookie = new vscode.EventEmitter<CookieChange>();
+  readonly onDidChangeCookie: vscode.Event<CookieChange> = this._onDidChangeCookie.event;
 
-  constructor(private secrets: vscode.SecretStorage) {}
+  /**
+   * @param site 每个站点分别保存账号和凭证
+   */
+  constructor(private secrets: vscode.SecretStorage, private site: Site) {}
 
   async saveCookie(cookie: string): Promise<void> {
-    await this.secrets.store(this.STORAGE_KEY, cookie);
+    // 同一时间只使用一种登录方式
+    await this.secrets.delete(await this.key(this.USER_API_KEY_KEY));
+    await this.secrets.delete(await this.key(this.SESSION_EXPIRES_KEY));
+    await this.secrets.store(await this.key(this.STORAGE_KEY), cookie);
+    this._onDidChangeCookie.fire('login');
+  }
+
+  /**
+   * 保存服务端通过 Set-Cookie 轮换后的 Cookie
+   * 与 saveCookie 不同，不会触发 onDidChangeCookie，已加载的内容和缓存保持不变
+   * @param sessionExpiresAt 会话 Cookie（_t）的过期时间
+   * @param accountId 发出请求时的账号，请求期间已经切换账号时不会写入当前账号
+   */
+  async updateCookie(cookie: string, sessionExpiresAt: number | undefined, accountId: string): Promise<void> {
+    const state = await this.loadAccounts();
+    // 账号已被移除时不再保存，避免留下无主的凭证
+    if (!state.accounts.some(account => account.id === accountId)) {
+      return;
+    }
+    await this.secrets.store(this.keyFor(this.STORAGE_KEY, accountId), cookie);
+    if (sessionExpiresAt !== undefined) {
+      await this.secrets.store(this.keyFor(this.SESSION_EXPIRES_KEY, accountId), String(sessionExpiresAt));
+    }
   }
 
   async getCookie(): Promise<string> {
-    return await this.secrets.get(this.STORAGE_KEY) || '';
+    return await this.secrets.get(await this.key(this.STORAGE_KEY)) || '';
+  }
+
+  /**
+   * 会话 Cookie 的过期时间，还没有收到过 Set-Cookie 时为空
+   */
+  async getSessionExpiresAt(): Promise<number | undefined> {
+    const value = await this.secrets.get(await this.key(this.SESSION_EXPIRES_KEY));
+    return value ? Number(value) : undefined;
   }
 
   async saveUserAgent(userAgent: string): Promise<void> {
-    await this.secrets.store(this.USER_AGENT_KEY, userAgent);
+    await this.secrets.store(await this.key(this.USER_AGENT_KEY), userAgent);
   }
 
   async getUserAgent(): Promise<string> {
-    return await this.secrets.get(this.USER_AGENT_KEY) || '';
+    return await this.secrets.get(await this.key(this.USER_AGENT_KEY)) || '';
   }
 
+  async saveUserApiKey(userApiKey: UserApiKey): Promise<void> {
+    await this.secrets.delete(await this.key(this.STORAGE_KEY));
+    await this.secrets.store(await this.key(this.USER_API_KEY_KEY), JSON.stringify(userApiKey));
+    this._onDidChangeCookie.fire('login');
+  }
+
+  async getUserApiKey(): Promise<UserApiKey | undefined> {
+    const value = await this.secrets.get(await this.key(this.USER_API_KEY_KEY));
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value) as UserApiKey;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 退出当前账号，删除它的 Cookie 和 User API Key
+   * 还有其他账号时移除当前账号并切换到下一个
+   */
   async deleteCookie(): Promise<void> {
-    await this.secrets.delete(this.STORAGE_KEY);
-    await this.secrets.delete(this.USER_AGENT_KEY);
+    const state = await this.loadAccounts();
+    const accountId = state.activeId;
+    for (const base of [this.STORAGE_KEY, this.USER_AGENT_KEY, this.USER_API_KEY_KEY, this.SESSION_EXPIRES_KEY]) {
+      await this.secrets.delete(this.keyFor(base, accountId));
+    }
+
+    if (state.accounts.length > 1) {
+      state.accounts = state.accounts.filter(account => account.id !== accountId);
+      state.activeId = state.accounts[0].id;
+      await this.saveAccounts();
+      // 下一个账号可能已经登录，按切换账号处理
+      this._onDidChangeCookie.fire('switch');
+      return;
+    }
+    state.accounts = [{ id: accountId }];
+    await this.saveAccounts();
+    this._onDidChangeCookie.fire('logout');
   }
 
+  /**
+   * 是否已登录，Cookie 和 User API Key 任意一种即可
+   */
   async hasCookie(): Promise<boolean> {
     const cookie = await this.getCookie();
-    return cookie.length > 0;
+    return cookie.length > 0 || !!await this.getUserApiKey();
+  }
+
+  async getAccounts(): Promise<Account[]> {
+    return [...(await this.loadAccounts()).accounts];
+  }
+
+  async getActiveAccount(): Promise<Account> {
+    const state = await this.loadAccounts();
+    return state.accounts.find(account => account.id === state.activeId) || { id: state.activeId };
+  }
+
+  /**
+   * 记录当前账号的用户名和头像，用于切换账号时显示
+   */
+  async updateAccountProfile(username: string, avatarTemplate: string): Promise<void> {
+    const state = await this.loadAccounts();
+    const account = state.accounts.find(a => a.id === state.activeId);
+    if (account && (account.username !== username || account.avatarTemplate !== avatarTemplate)) {
+      account.username = username;
+      account.avatarTemplate = avatarTemplate;
+      await this.saveAccounts();
+    }
+  }
+
+  /**
+   * 添加一个空账号并切换过去，之后通过登录流程保存凭证
+   */
+  async addAccount(): Promise<void> {
+    const state = await this.loadAccounts();
+    const id = crypto.randomBytes(8).toString('hex');
+    state.accounts.push({ id });
+    state.activeId = id;
+    await this.saveAccounts();
+    this._onDidChangeCookie.fire('switch');
+  }
+
+  async switchAccount(accountId: string): Promise<void> {
+    const state = await this.loadAccounts();
+    if (state.activeId === accountId || !state.accounts.some(account => account.id === accountId)) {
+      return;
+    }
+    state.activeId = accountId;
+    await this.saveAccounts();
+    this._onDidChangeCookie.fire('switch');
+  }
+
+  private async loadAccounts(): Promise<AccountsState> {
+    if (!this.accountsState) {
+      let state: AccountsState | undefined;
+      try {
+        const value = await this.secrets.get(this.site.storageKey(this.ACCOUNTS_KEY));
+        state = value ? JSON.parse(value) as AccountsState : undefined;
+      } catch {
+        // 账号列表损坏时回到默认账号
+      }
+      this.accountsState = state && state.accounts.length > 0
+        ? state
+        : { activeId: DEFAULT_ACCOUNT_ID, accounts: [{ id: DEFAULT_ACCOUNT_ID }] };
+    }
+    return this.accountsState;
+  }
+
+  private async saveAccounts(): Promise<void> {
+    if (this.accountsState) {
+      await this.secrets.store(this.site.storageKey(this.ACCOUNTS_KEY), JSON.stringify(this.accountsState));
+    }
+  }
+
+  /**
+   * 当前账号的存储键
+   */
+  private async key(base: string): Promise<string> {
+    return this.keyFor(base, (await this.loadAccounts()).activeId);
+  }
+
+  private keyFor(base: string, accountId: string): string {
+    return this.site.storageKey(accountId === DEFAULT_ACCOUNT_ID ? base : `${base}:${accountId}`);
   }
 }
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { CookieStorage } from './CookieStorage';
+import { UserService } from '../services/UserService';
+import { AuthExpiredError } from '../api/ApiErrors';
+import type { Site } from '../sites/Site';
+
+// 会话 Cookie 在这段时间内过期时提前提示
+const EXPIRING_THRESHOLD = 3 * 24 * 60 * 60 * 1000;
+
+type SessionState = 'unknown' | 'valid' | 'expiring' | 'expired';
+
+/**
+ * 检查登录会话是否有效，在状态栏显示会话即将过期或已过期
+ * 只提示不打断浏览，点击状态栏后重新登录
+ */
+export class SessionMonitor implements vscode.Disposable {
+  private state: SessionState = 'unknown';
+  private statusBarItem: vscode.StatusBarItem;
+
+  constructor(
+    private site: Site,
+    private cookieStorage: CookieStorage,
+    private userService: UserService
+  ) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    this.statusBarItem.command = { command: 'linuxdo.login', title: vscode.l10n.t('重新登录'), arguments: [site.id] };
+  }
+
+  /**
+   * 通过 /session/current.json 检查会话
+   */
+  async check(): Promise<void> {
+    if (!await this.cookieStorage.hasCookie()) {
+      this.setState('unknown');
+      return;
+    }
+
+    try {
+      const user = await this.userService.getCurrentUser();
+      console.log(`[SessionMonitor] 会话有效: ${user.username}`);
+      this.setState(await this.isExpiringSoon() ? 'expiring' : 'valid');
+    } catch (error: any) {
+      if (error instanceof AuthExpiredError) {
+        this.markExpired();
+      } else {
+        // 网络错误等情况无法判断会话状态，保持不变
+        console.error('[SessionMonitor] 检查会话失败:', error.message);
+      }
+    }
+  }
+
+  /**
+   * 请求返回 401/403 时调用
+   */
+  markExpired(): void {
+    if (this.state !== 'expired') {
+      console.log('[SessionMonitor] 会话已过期');
+      this.setState('expired');
+    }
+  }
+
+  /**
+   * Cookie 轮换后重新判断是否即将过期
+   */
+  async handleCookieUpdate(): Promise<void> {
+    if (this.state === 'valid' || this.state === 'expiring') {
+      this.setState(await this.isExpiringSoon() ? 'expiring' : 'valid');
+    }
+  }
+
+  dispose(): void {
+    this.statusBarItem.dispose();
+  }
+
+  private async isExpiringSoon(): Promise<boolean> {
+    const expiresAt = await this.cookieStorage.getSessionExpiresAt();
+    return expiresAt !== undefined && expiresAt - Date.now() < EXPIRING_THRESHOLD;
+  }
+
+  private setState(state: SessionState): void {
+    this.state = state;
+    if (state === 'expiring') {
+      this.statusBarItem.text = vscode.l10n.t('$(warning) 会话即将过期');
+      this.statusBarItem.tooltip = vscode.l10n.t('{0} 登录会话即将过期，点击重新登录', this.site.name);
+      this.statusBarItem.show();
+    } else if (state === 'expired') {
+      this.statusBarItem.text = vscode.l10n.t('$(error) 会话已过期');
+      this.statusBarItem.tooltip = vscode.l10n.t('{0} 登录会话已过期，点击重新登录', this.site.name);
+      this.statusBarItem.show();
+    } else {
+      this.statusBarItem.hide();
+    }
+  }
+}
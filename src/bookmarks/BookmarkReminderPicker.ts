@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+
+interface ReminderQuickPickItem extends vscode.QuickPickItem {
+  // 返回 null 表示不提醒，返回 undefined 表示需要手动输入
+  getReminder: () => Date | null | undefined;
+}
+
+// 预设提醒的时刻
+const REMINDER_HOUR = 8;
+
+/**
+ * 选择书签的提醒时间
+ * @param title QuickPick 标题
+ * @returns 提醒时间，null 表示不提醒，用户取消时返回 undefined
+ */
+export async function pickBookmarkReminder(title: string): Promise<Date | null | undefined> {
+  const now = new Date();
+
+  const items: ReminderQuickPickItem[] = [
+    {
+      label: vscode.l10n.t('$(circle-slash) 不提醒'),
+      getReminder: () => null
+    },
+    {
+      label: vscode.l10n.t('$(clock) 两小时后'),
+      getReminder: () => new Date(now.getTime() + 2 * 60 * 60 * 1000)
+    },
+    {
+      label: vscode.l10n.t('$(calendar) 明天'),
+      getReminder: () => atReminderHour(addDays(now, 1))
+    },
+    {
+      label: vscode.l10n.t('$(calendar) 下周'),
+      description: vscode.l10n.t('下周一'),
+      getReminder: () => atReminderHour(addDays(now, 8 - (now.getDay() || 7)))
+    },
+    {
+      label: vscode.l10n.t('$(calendar) 下个月'),
+      getReminder: () => atReminderHour(new Date(now.getFullYear(), now.getMonth() + 1, 1))
+    },
+    {
+      label: vscode.l10n.t('$(edit) 自定义时间...'),
+      getReminder: () => undefined
+    }
+  ];
+
+  // 预设时间显示在说明中
+  for (const item of items) {
+    const reminder = item.getReminder();
+    if (reminder) {
+      item.description = [item.description, formatReminder(reminder)].filter(Boolean).join(' · ');
+    }
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title,
+    placeHolder: vscode.l10n.t('选择提醒时间')
+  });
+  if (!selected) {
+    return undefined;
+  }
+
+  const reminder = selected.getReminder();
+  if (reminder !== undefined) {
+    return reminder;
+  }
+
+  const input = await vscode.window.showInputBox({
+    title,
+    prompt: vscode.l10n.t('输入提醒时间，例如 2024-06-01 20:00'),
+    validateInput: (value) => {
+      const date = parseReminder(value);
+      if (!date) {
+        return vscode.l10n.t('时间格式不正确');
+      }
+      if (date.getTime() <= Date.now()) {
+        return vscode.l10n.t('提醒时间必须晚于当前时间');
+      }
+      return null;
+    }
+  });
+  return input ? parseReminder(input) : undefined;
+}
+
+/**
+ * 格式化提醒时间，例如 "6月1日 08:00"
+ */
+export function formatReminder(date: Date): string {
+  return date.toLocaleString(vscode.env.language, {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function atReminderHour(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(REMINDER_HOUR, 0, 0, 0);
+  return result;
+}
+
+function parseReminder(value: string): Date | undefined {
+  const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:\s+(\d{1,2}):(\d{2}))?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day), hour ? Number(hour) : REMINDER_HOUR, minute ? Number(minute) : 0);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,762 @@
+import * as vscode from 'vscode';
+import type { DraftData } from '../api/ApiTypes';
+import { parseDraftData } from '../services/DraftService';
+import { getTagName } from '../services/TagService';
+import type { SiteSession } from '../sites/SiteSession';
+import { getPreviewHtml } from './ComposerPreview';
+import { showError } from '../errors/ErrorHandler';
+
+export type ComposerAction = 'reply' | 'createTopic' | 'privateMessage';
+
+interface ComposerSession {
+  // 草稿所属的站点
+  siteSession: SiteSession;
+  draftKey: string;
+  action: ComposerAction;
+  topicId?: number;
+  topicTitle?: string;
+  replyToPostId?: number;
+  replyToPostNumber?: number;
+  title?: string;
+  categoryId?: number;
+  categoryName?: string;
+  tags?: string[];
+  recipients?: string[];
+  sequence: number;
+  saveTimer?: NodeJS.Timeout;
+  // 正在同步的草稿，后一次保存和发布都要等它完成
+  pendingSave?: Promise<void>;
+  // 正在发布，期间不再同步草稿
+  submitting?: boolean;
+  previewPanel?: vscode.WebviewPanel;
+  openedAt: number;
+}
+
+export interface ReplyOptions {
+  topicTitle?: string;
+  replyToPostId?: number;
+  replyToPostNumber?: number;
+  // 追加到编辑器末尾的引用内容
+  quote?: string;
+}
+
+export interface NewTopicOptions {
+  title?: string;
+  categoryId?: number;
+  tags?: string[];
+  // 追加到正文末尾的内容，例如分享的代码
+  body?: string;
+}
+
+export interface NewMessageOptions {
+  title?: string;
+  recipients?: string[];
+}
+
+export interface SubmitEvent {
+  siteSession: SiteSession;
+  topicId: number;
+  slug?: string;
+  isNewTopic: boolean;
+  isPrivateMessage: boolean;
+}
+
+// 停止输入后多久把草稿同步到 Discourse
+const DRAFT_SAVE_DELAY_MS = 2000;
+
+/**
+ * 管理 Markdown 编辑器形式的回复和新话题草稿
+ */
+export class ComposerManager implements vscode.CodeLensProvider {
+  // 以编辑器文档 URI 为键的草稿会话
+  private sessions: Map<string, ComposerSession> = new Map();
+
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+  private _onDidSubmit = new vscode.EventEmitter<SubmitEvent>();
+  readonly onDidSubmit: vscode.Event<SubmitEvent> = this._onDidSubmit.event;
+
+  constructor(private context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+      vscode.languages.registerCodeLensProvider({ scheme: 'untitled', language: 'markdown' }, this),
+      vscode.workspace.onDidChangeTextDocument(event => this.handleDocumentChange(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.handleDocumentClose(document)),
+      vscode.window.onDidChangeActiveTextEditor(editor => this.updateContext(editor))
+    );
+  }
+
+  /**
+   * 打开话题回复编辑器
+   */
+  async openReply(siteSession: SiteSession, topicId: number, options: ReplyOptions = {}): Promise<void> {
+    await this.openSession({
+      siteSession,
+      draftKey: `topic_${topicId}`,
+      action: 'reply',
+      topicId,
+      topicTitle: options.topicTitle,
+      replyToPostId: options.replyToPostId,
+      replyToPostNumber: options.replyToPostNumber,
+      sequence: 0,
+      openedAt: Date.now()
+    }, vscode.l10n.t('回复-{0}.md', topicId), options.quote);
+  }
+
+  /**
+   * 选择分类、标签和标题后打开新话题编辑器
+   * @returns 用户取消时返回 false
+   */
+  async openNewTopic(siteSession: SiteSession, options: NewTopicOptions = {}): Promise<boolean> {
+    const metadata = await this.pickTopicMetadata(siteSession, options);
+    if (!metadata) {
+      return false;
+    }
+
+    await this.openSession({
+      siteSession,
+      draftKey: 'new_topic',
+      action: 'createTopic',
+      ...metadata,
+      sequence: 0,
+      openedAt: Date.now()
+    }, vscode.l10n.t('新话题.md'), options.body);
+    return true;
+  }
+
+  /**
+   * 选择收件人并输入标题后打开私信编辑器
+   * @returns 用户取消时返回 false
+   */
+  async openNewMessage(siteSession: SiteSession, options: NewMessageOptions = {}): Promise<boolean> {
+    const metadata = await this.pickMessageMetadata(siteSession, options);
+    if (!metadata) {
+      return false;
+    }
+
+    await this.openSession({
+      siteSession,
+      draftKey: 'new_private_message',
+      action: 'privateMessage',
+      ...metadata,
+      sequence: 0,
+      openedAt: Date.now()
+    }, vscode.l10n.t('新私信.md'));
+    return true;
+  }
+
+  /**
+   * 修改新话题的标题、分类和标签，或私信的标题和收件人
+   */
+  async editTopicMetadata(uri?: vscode.Uri): Promise<void> {
+    const found = this.findSession(uri);
+    if (!found || found.session.action === 'reply') {
+      return;
+    }
+
+    const { document, session } = found;
+    const metadata = session.action === 'privateMessage'
+      ? await this.pickMessageMetadata(session.siteSession, session)
+      : await this.pickTopicMetadata(session.siteSession, session);
+    if (!metadata) {
+      return;
+    }
+    Object.assign(session, metadata);
+    this._onDidChangeCodeLenses.fire();
+    this.saveDraft(document, session);
+  }
+
+  /**
+   * 从 Discourse 草稿列表中恢复草稿
+   */
+  async openDrafts(siteSession: SiteSession): Promise<void> {
+    const drafts = await siteSession.draftService.getDrafts();
+    if (drafts.length === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('没有草稿'));
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      drafts.map(draft => ({
+        label: draft.title || draft.draft_key,
+        description: draft.draft_key,
+        detail: draft.excerpt,
+        draft
+      })),
+      { placeHolder: vscode.l10n.t('选择要继续编辑的草稿') }
+    );
+    if (!selected) {
+      return;
+    }
+
+    const draftKey = selected.draft.draft_key;
+    const data = parseDraftData(selected.draft.data);
+
+    if (draftKey === 'new_topic') {
+      await this.openNewTopic(siteSession, {
+        title: data.title,
+        categoryId: data.categoryId,
+        tags: data.tags
+      });
+      return;
+    }
+
+    if (draftKey === 'new_private_message') {
+      await this.openNewMessage(siteSession, {
+        title: data.title,
+        recipients: data.recipients ? data.recipients.split(',').filter(Boolean) : undefined
+      });
+      return;
+    }
+
+    const topicMatch = draftKey.match(/^topic_(\d+)$/);
+    if (!topicMatch) {
+      vscode.window.showWarningMessage(vscode.l10n.t('暂不支持此类草稿: {0}', draftKey));
+      return;
+    }
+
+    let replyToPostNumber: number | undefined;
+    if (data.postId) {
+      try {
+        replyToPostNumber = (await siteSession.postService.getPost(data.postId)).post_number;
+      } catch (error: any) {
+        console.error('[ComposerManager] 获取被回复的帖子失败:', error);
+      }
+    }
+
+    await this.openReply(siteSession, Number(topicMatch[1]), {
+      topicTitle: selected.draft.title,
+      replyToPostId: data.postId,
+      replyToPostNumber
+    });
+  }
+
+  /**
+   * 发布当前编辑器中的内容
+   */
+  async submit(uri?: vscode.Uri): Promise<void> {
+    const found = this.findSession(uri);
+    if (!found) {
+      vscode.window.showErrorMessage(vscode.l10n.t('当前编辑器不是 Linux.do 草稿'));
+      return;
+    }
+
+    const { document, session } = found;
+    if (session.submitting) {
+      return;
+    }
+    const raw = document.getText().trim();
+    if (!raw) {
+      vscode.window.showErrorMessage(vscode.l10n.t('内容不能为空'));
+      return;
+    }
+
+    // 取消还没开始的同步并等待正在进行的同步，避免发布后草稿又被保存回去
+    if (session.saveTimer) {
+      clearTimeout(session.saveTimer);
+      session.saveTimer = undefined;
+    }
+    session.submitting = true;
+    await session.pendingSave;
+
+    const { postService, draftService } = session.siteSession;
+    let post;
+    try {
+      post = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('正在发布...') },
+        async () => {
+          if (session.action === 'createTopic') {
+            return await postService.createTopic(session.title!, raw, session.categoryId!, session.tags, session.draftKey);
+          }
+          if (session.action === 'privateMessage') {
+            return await postService.createPrivateMessage(session.title!, raw, session.recipients || [], session.draftKey);
+          }
+          return await postService.createReply(session.topicId!, raw, session.replyToPostNumber, session.draftKey);
+        }
+      );
+    } catch (error: any) {
+      session.submitting = false;
+      showError(error);
+      // 同步发布期间的修改
+      this.saveDraft(document, session);
+      return;
+    }
+
+    try {
+      await draftService.deleteDraft(session.draftKey, session.sequence);
+    } catch (error: any) {
+      // 发布时 Discourse 通常已经删除了草稿
+      console.log('[ComposerManager] 发布后删除草稿失败:', error.message);
+    }
+
+    const isNewTopic = session.action !== 'reply';
+    const isPrivateMessage = session.action === 'privateMessage';
+    vscode.window.showInformationMessage(isPrivateMessage ? vscode.l10n.t('私信发送成功!') : isNewTopic ? vscode.l10n.t('话题发布成功!') : vscode.l10n.t('回复成功!'));
+    this.endSession(document, session);
+    await this.closeDocument(document);
+    this._onDidSubmit.fire({
+      siteSession: session.siteSession,
+      topicId: post.topic_id ?? session.topicId!,
+      slug: post.topic_slug,
+      isNewTopic,
+      isPrivateMessage
+    });
+  }
+
+  /**
+   * 在侧边打开预览
+   */
+  preview(uri?: vscode.Uri): void {
+    const found = this.findSession(uri);
+    if (!found) {
+      vscode.window.showErrorMessage(vscode.l10n.t('当前编辑器不是 Linux.do 草稿'));
+      return;
+    }
+
+    const { document, session } = found;
+    if (session.previewPanel) {
+      session.previewPanel.reveal(vscode.ViewColumn.Beside, true);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'linuxdoComposerPreview',
+      vscode.l10n.t('预览: {0}', this.getSessionTitle(session)),
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      {
+        enableScripts: false,
+        localResourceRoots: []
+      }
+    );
+    panel.webview.html = getPreviewHtml(this.getSessionTitle(session), document.getText(), session.siteSession.site);
+    panel.onDidDispose(() => {
+      session.previewPanel = undefined;
+    });
+    session.previewPanel = panel;
+  }
+
+  /**
+   * 放弃草稿，同时删除 Discourse 上的草稿
+   */
+  async discard(uri?: vscode.Uri): Promise<void> {
+    const found = this.findSession(uri);
+    if (!found) {
+      return;
+    }
+
+    const result = await vscode.window.showWarningMessage(
+      vscode.l10n.t('确定要放弃这个草稿吗？'),
+      { modal: true },
+      vscode.l10n.t('放弃')
+    );
+    if (result !== vscode.l10n.t('放弃')) {
+      return;
+    }
+
+    const { document, session } = found;
+    this.endSession(document, session);
+    await session.pendingSave;
+    try {
+      await session.siteSession.draftService.deleteDraft(session.draftKey, session.sequence);
+    } catch (error: any) {
+      console.error('[ComposerManager] 删除草稿失败:', error);
+    }
+    await this.closeDocument(document);
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const session = this.sessions.get(document.uri.toString());
+    if (!session) {
+      return [];
+    }
+
+    const range = new vscode.Range(0, 0, 0, 0);
+    const lenses = [
+      new vscode.CodeLens(range, { title: `$(comment) ${this.getSessionTitle(session)}`, command: '' })
+    ];
+    if (session.action === 'createTopic') {
+      lenses.push(new vscode.CodeLens(range, { title: vscode.l10n.t('$(edit) 修改标题和分类'), command: 'linuxdo.composer.editTopicMetadata', arguments: [document.uri] }));
+    }
+    if (session.action === 'privateMessage') {
+      lenses.push(new vscode.CodeLens(range, { title: vscode.l10n.t('$(edit) 修改标题和收件人'), command: 'linuxdo.composer.editTopicMetadata', arguments: [document.uri] }));
+    }
+    return [
+      ...lenses,
+      new vscode.CodeLens(range, { title: vscode.l10n.t('$(send) 发布'), command: 'linuxdo.composer.submit', arguments: [document.uri] }),
+      new vscode.CodeLens(range, { title: vscode.l10n.t('$(open-preview) 预览'), command: 'linuxdo.composer.preview', arguments: [document.uri] }),
+      new vscode.CodeLens(range, { title: vscode.l10n.t('$(trash) 放弃草稿'), command: 'linuxdo.composer.discard', arguments: [document.uri] })
+    ];
+  }
+
+  private async openSession(session: ComposerSession, fileName: string, appendText?: string): Promise<void> {
+    // 同一个草稿只打开一个编辑器
+    for (const [uriString, existing] of this.sessions) {
+      if (existing.siteSession !== session.siteSession || existing.draftKey !== session.draftKey) {
+        continue;
+      }
+      const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uriString);
+      if (document) {
+        // 更新回复目标，例如在已打开的草稿中再引用另一条回复
+        if (session.replyToPostNumber) {
+          existing.replyToPostId = session.replyToPostId;
+          existing.replyToPostNumber = session.replyToPostNumber;
+        }
+        // 新话题使用最新选择的标题和分类
+        if (session.action === 'createTopic') {
+          existing.title = session.title;
+          existing.categoryId = session.categoryId;
+          existing.categoryName = session.categoryName;
+          existing.tags = session.tags;
+        }
+        if (session.action === 'privateMessage') {
+          existing.title = session.title;
+          existing.recipients = session.recipients;
+        }
+        this._onDidChangeCodeLenses.fire();
+        const editor = await vscode.window.showTextDocument(document);
+        if (appendText) {
+          await this.appendText(editor, appendText);
+        }
+        return;
+      }
+    }
+
+    // 读取 Discourse 上已保存的草稿
+    let initialText = '';
+    try {
+      const draft = await session.siteSession.draftService.getDraft(session.draftKey);
+      session.sequence = draft.sequence;
+      initialText = draft.data?.reply || '';
+    } catch (error: any) {
+      console.error('[ComposerManager] 读取草稿失败:', error);
+    }
+
+    // 不同站点的同名草稿放在各自的目录下，避免打开同一个编辑器
+    const uri = vscode.Uri.from({ scheme: 'untitled', path: `${session.siteSession.site.id}/${fileName}` });
+    const document = await vscode.workspace.openTextDocument(uri);
+    this.sessions.set(document.uri.toString(), session);
+    const editor = await vscode.window.showTextDocument(document);
+
+    const content = [initialText.trimEnd(), appendText].filter(text => text && text.length > 0).join('\n\n');
+    if (content) {
+      await editor.edit(builder => {
+        builder.replace(new vscode.Range(0, 0, document.lineCount, 0), content);
+      });
+    }
+
+    this._onDidChangeCodeLenses.fire();
+    this.updateContext(editor);
+  }
+
+  /**
+   * 依次选择分类、标签并输入标题
+   */
+  private async pickTopicMetadata(siteSession: SiteSession, defaults: NewTopicOptions): Promise<Pick<ComposerSession, 'title' | 'categoryId' | 'categoryName' | 'tags'> | undefined> {
+    const categories = await siteSession.categoryService.getCategories();
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+    const categoryItems = categories.map(category => ({
+      // 子分类带上父分类名称，避免重名
+      label: category.parent_category_id
+        ? `${categoryNames.get(category.parent_category_id)} / ${category.name}`
+        : category.name,
+      description: category.id === defaults.categoryId ? vscode.l10n.t('当前分类') : undefined,
+      detail: category.description ? category.description.replace(/<[^>]*>/g, '') : undefined,
+      category
+    }));
+    // 默认分类排在最前面
+    categoryItems.sort((a, b) => Number(b.category.id === defaults.categoryId) - Number(a.category.id === defaults.categoryId));
+
+    const categoryItem = await vscode.window.showQuickPick(categoryItems, {
+      title: vscode.l10n.t('新话题 (1/3)'),
+      placeHolder: vscode.l10n.t('选择分类'),
+      matchOnDetail: true
+    });
+    if (!categoryItem) {
+      return undefined;
+    }
+
+    // 标签为可选项，获取失败时跳过
+    let tags: string[] = defaults.tags || [];
+    try {
+      const allTags = await siteSession.tagService.getTags();
+      if (allTags.length > 0) {
+        const selectedTags = await vscode.window.showQuickPick(
+          allTags.map(tag => ({
+            label: getTagName(tag),
+            description: `x ${tag.count}`,
+            picked: tags.includes(getTagName(tag))
+          })),
+          {
+            title: vscode.l10n.t('新话题 (2/3)'),
+            placeHolder: vscode.l10n.t('选择标签（可选）'),
+            canPickMany: true
+          }
+        );
+        if (!selectedTags) {
+          return undefined;
+        }
+        tags = selectedTags.map(item => item.label);
+      }
+    } catch (error: any) {
+      console.error('[ComposerManager] 获取标签失败:', error);
+    }
+
+    const title = await vscode.window.showInputBox({
+      title: vscode.l10n.t('新话题 (3/3)'),
+      prompt: vscode.l10n.t('输入话题标题'),
+      value: defaults.title,
+      validateInput: (value) => {
+        if (!value || value.trim().length === 0) {
+          return vscode.l10n.t('标题不能为空');
+        }
+        return null;
+      }
+    });
+    if (!title) {
+      return undefined;
+    }
+
+    return {
+      title: title.trim(),
+      categoryId: categoryItem.category.id,
+      categoryName: categoryItem.category.name,
+      tags
+    };
+  }
+
+  /**
+   * 搜索并选择收件人，然后输入标题
+   */
+  private async pickMessageMetadata(siteSession: SiteSession, defaults: NewMessageOptions): Promise<Pick<ComposerSession, 'title' | 'recipients'> | undefined> {
+    const recipients = await this.pickRecipients(siteSession, defaults.recipients || []);
+    if (!recipients) {
+      return undefined;
+    }
+
+    const title = await vscode.window.showInputBox({
+      title: vscode.l10n.t('新私信 (2/2)'),
+      prompt: vscode.l10n.t('输入私信标题'),
+      value: defaults.title,
+      validateInput: (value) => {
+        if (!value || value.trim().length === 0) {
+          return vscode.l10n.t('标题不能为空');
+        }
+        return null;
+      }
+    });
+    if (!title) {
+      return undefined;
+    }
+
+    return {
+      title: title.trim(),
+      recipients
+    };
+  }
+
+  /**
+   * 输入时搜索用户，可选择多个收件人
+   */
+  private pickRecipients(siteSession: SiteSession, initial: string[]): Promise<string[] | undefined> {
+    type RecipientItem = vscode.QuickPickItem & { username: string };
+    const toItem = (username: string, name?: string | null): RecipientItem => ({
+      label: username,
+      description: name || undefined,
+      username
+    });
+
+    const quickPick = vscode.window.createQuickPick<RecipientItem>();
+    quickPick.title = vscode.l10n.t('新私信 (1/2)');
+    quickPick.placeholder = vscode.l10n.t('输入用户名搜索收件人，可选择多个');
+    quickPick.canSelectMany = true;
+    quickPick.matchOnDescription = true;
+    quickPick.items = initial.map(username => toItem(username));
+    quickPick.selectedItems = quickPick.items;
+
+    let searchTimer: NodeJS.Timeout | undefined;
+    let searchVersion = 0;
+
+    return new Promise(resolve => {
+      quickPick.onDidChangeValue(value => {
+        if (searchTimer) {
+          clearTimeout(searchTimer);
+        }
+        const term = value.trim();
+        if (!term) {
+          return;
+        }
+        searchTimer = setTimeout(async () => {
+          const version = ++searchVersion;
+          quickPick.busy = true;
+          try {
+            const users = await siteSession.userService.searchUsers(term);
+            if (version !== searchVersion) {
+              return;
+            }
+            // 保留已选中的收件人，否则替换列表时会丢失选择
+            const selected = quickPick.selectedItems;
+            const selectedNames = new Set(selected.map(item => item.username));
+            quickPick.items = [
+              ...selected,
+              ...users.filter(user => !selectedNames.has(user.username)).map(user => toItem(user.username, user.name))
+            ];
+            quickPick.selectedItems = selected;
+          } catch (error: any) {
+            console.error('[ComposerManager] 搜索用户失败:', error);
+          } finally {
+            if (version === searchVersion) {
+              quickPick.busy = false;
+            }
+          }
+        }, 300);
+      });
+
+      quickPick.onDidAccept(() => {
+        if (quickPick.selectedItems.length === 0) {
+          return;
+        }
+        resolve(quickPick.selectedItems.map(item => item.username));
+        quickPick.hide();
+      });
+
+      quickPick.onDidHide(() => {
+        if (searchTimer) {
+          clearTimeout(searchTimer);
+        }
+        resolve(undefined);
+        quickPick.dispose();
+      });
+
+      quickPick.show();
+    });
+  }
+
+  private async appendText(editor: vscode.TextEditor, text: string): Promise<void> {
+    const document = editor.document;
+    const end = document.lineAt(document.lineCount - 1).range.end;
+    const prefix = document.getText().trim().length > 0 ? '\n\n' : '';
+    await editor.edit(builder => builder.insert(end, prefix + text));
+  }
+
+  private findSession(uri?: vscode.Uri): { document: vscode.TextDocument; session: ComposerSession } | undefined {
+    const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
+    if (!targetUri) {
+      return undefined;
+    }
+    const session = this.sessions.get(targetUri.toString());
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === targetUri.toString());
+    return session && document ? { document, session } : undefined;
+  }
+
+  private getSessionTitle(session: ComposerSession): string {
+    if (session.action === 'privateMessage') {
+      return vscode.l10n.t('私信「{0}」 → {1}', session.title || '', (session.recipients || []).join(', '));
+    }
+    if (session.action === 'createTopic') {
+      const tags = session.tags && session.tags.length > 0 ? ` · ${session.tags.join(', ')}` : '';
+      return vscode.l10n.t('新话题「{0}」 · {1}{2}', session.title || '', session.categoryName || session.categoryId || '', tags);
+    }
+    const topic = session.topicTitle ? `「${session.topicTitle}」` : `#${session.topicId}`;
+    return session.replyToPostNumber ? vscode.l10n.t('回复 {0} 的 #{1} 楼', topic, session.replyToPostNumber) : vscode.l10n.t('回复话题 {0}', topic);
+  }
+
+  private handleDocumentChange(document: vscode.TextDocument): void {
+    const session = this.sessions.get(document.uri.toString());
+    if (!session) {
+      return;
+    }
+
+    if (session.saveTimer) {
+      clearTimeout(session.saveTimer);
+      session.saveTimer = undefined;
+    }
+    // 发布期间的修改在发布失败后再同步
+    if (!session.submitting) {
+      session.saveTimer = setTimeout(() => {
+        session.saveTimer = undefined;
+        this.saveDraft(document, session);
+      }, DRAFT_SAVE_DELAY_MS);
+    }
+
+    if (session.previewPanel) {
+      session.previewPanel.webview.html = getPreviewHtml(this.getSessionTitle(session), document.getText(), session.siteSession.site);
+    }
+  }
+
+  private handleDocumentClose(document: vscode.TextDocument): void {
+    const session = this.sessions.get(document.uri.toString());
+    if (!session) {
+      return;
+    }
+
+    // 关闭前立即保存未同步的修改
+    if (session.saveTimer) {
+      clearTimeout(session.saveTimer);
+      session.saveTimer = undefined;
+      this.saveDraft(document, session);
+    }
+    this.endSession(document, session);
+  }
+
+  /**
+   * 同步草稿，按顺序在上一次同步完成后进行，保证序号正确
+   */
+  private saveDraft(document: vscode.TextDocument, session: ComposerSession): Promise<void> {
+    const save = (session.pendingSave || Promise.resolve()).then(() => this.uploadDraft(document, session));
+    session.pendingSave = save;
+    return save;
+  }
+
+  private async uploadDraft(document: vscode.TextDocument, session: ComposerSession): Promise<void> {
+    const data: DraftData = {
+      reply: document.getText(),
+      action: session.action,
+      postId: session.replyToPostId,
+      title: session.title,
+      categoryId: session.categoryId,
+      tags: session.tags,
+      recipients: session.recipients?.join(','),
+      archetypeId: session.action === 'privateMessage' ? 'private_message' : 'regular',
+      composerTime: Date.now() - session.openedAt,
+      typingTime: 0
+    };
+
+    try {
+      session.sequence = await session.siteSession.draftService.saveDraft(session.draftKey, data, session.sequence);
+      console.log(`[ComposerManager] 草稿 ${session.draftKey} 已保存，序号 ${session.sequence}`);
+    } catch (error: any) {
+      console.error('[ComposerManager] 保存草稿失败:', error);
+      // 草稿可能在其他客户端被修改，更新序号后下次保存时覆盖
+      try {
+        session.sequence = (await session.siteSession.draftService.getDraft(session.draftKey)).sequence;
+      } catch {
+        // 忽略
+      }
+      vscode.window.setStatusBarMessage(vscode.l10n.t('$(warning) {0} 草稿同步失败', session.siteSession.site.name), 5000);
+    }
+  }
+
+  private endSession(document: vscode.TextDocument, session: ComposerSession): void {
+    if (session.saveTimer) {
+      clearTimeout(session.saveTimer);
+      session.saveTimer = undefined;
+    }
+    session.previewPanel?.dispose();
+    this.sessions.delete(document.uri.toString());
+    this._onDidChangeCodeLenses.fire();
+    this.updateContext(vscode.window.activeTextEditor);
+  }
+
+  /**
+   * 关闭未保存的草稿编辑器，不弹出保存提示
+   */
+  private async closeDocument(document: vscode.TextDocument): Promise<void> {
+    await vscode.window.showTextDocument(document);
+    await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+  }
+
+  private updateContext(editor: vscode.TextEditor | undefined): void {
+    const isComposer = !!editor && this.sessions.has(editor.document.uri.toString());
+    vscode.commands.executeCommand('setContext', 'linuxdo.composerActive', isComposer);
+  }
+}
@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import MarkdownIt from 'markdown-it';
+import { highlightCodeBlocks, sanitizeHtml } from '../webview/PostRenderer';
+import { POST_STYLES } from '../webview/ReaderStyles';
+import { escapeHtml } from '../webview/WebviewUtils';
+import type { Site } from '../sites/Site';
+
+// 与 Discourse 默认设置一致：单个换行即换行，自动识别链接
+const markdown = new MarkdownIt({
+  html: true,
+  breaks: true,
+  linkify: true,
+  langPrefix: 'lang-'
+});
+
+/**
+ * 按 Discourse 的规则把 Markdown 渲染为 cooked HTML
+ */
+export function cookMarkdown(raw: string, site: Site): string {
+  // [quote="用户名, post:1, topic:2"] 引用块
+  const withQuotes = raw.replace(/\[quote(?:="([^"]*)")?\]([\s\S]*?)\[\/quote\]/gi, (_match, params: string | undefined, inner: string) => {
+    const username = (params || '').split(',')[0].trim();
+    const title = username ? `<div class="title">${escapeHtml(username)}:</div>` : '';
+    return `\n\n<aside class="quote" data-username="${escapeHtml(username)}">${title}<blockquote>\n\n${inner.trim()}\n\n</blockquote></aside>\n\n`;
+  });
+
+  const html = markdown.render(withQuotes);
+
+  // 只处理代码和链接之外的文本：表情和 @提及
+  let skipDepth = 0;
+  const cooked = html
+    .split(/(<[^>]+>)/)
+    .map(part => {
+      const tagMatch = part.match(/^<(\/?)(pre|code|a)\b/i);
+      if (tagMatch) {
+        skipDepth += tagMatch[1] ? -1 : 1;
+        return part;
+      }
+      if (part.startsWith('<') || skipDepth > 0) {
+        return part;
+      }
+      return part
+        .replace(/:([a-z0-9_+-]+):/g, (_match, name: string) =>
+          `<img class="emoji" src="${site.url(`/images/emoji/twitter/${name}.png`)}" alt=":${name}:" title=":${name}:">`)
+        .replace(/(^|[\s(])@([\w.-]+)/g, (_match, prefix: string, username: string) =>
+          `${prefix}<a class="mention" href="${site.userUrl(username)}">@${username}</a>`);
+    })
+    .join('');
+
+  return highlightCodeBlocks(sanitizeHtml(cooked, site));
+}
+
+/**
+ * 生成编辑器预览页面
+ */
+export function getPreviewHtml(title: string, raw: string, site: Site): string {
+  return `<!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src 'unsafe-inline';">
+        <title>${escapeHtml(title)}</title>
+        <style>
+          body {
+            padding: 0 20px 40px;
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            line-height: 1.6;
+          }
+          h1 {
+            font-size: 20px;
+            font-weight: 500;
+            margin: 24px 0 8px;
+          }
+          a {
+            color: var(--vscode-textLink-foreground);
+          }
+          ${POST_STYLES}
+        </style>
+      </head>
+      <body>
+        <h1>${escapeHtml(title)}</h1>
+        <article class="post">
+          <div class="cooked">${cookMarkdown(raw, site)}</div>
+        </article>
+      </body>
+    </html>`;
+}
@@ -1,11 +1,36 @@
 export const DISCOURSE_API = {
-  BASE_URL: 'https://linux.do',
   ENDPOINTS: {
     CATEGORIES: '/categories.json',
+    CATEGORIES_WITH_SUBCATEGORIES: '/categories.json?include_subcategories=true',
     CATEGORY_TOPICS: (categoryId: number) => `/c/${categoryId}.json`,
     LATEST_TOPICS: '/latest.json',
+    TOPIC_LIST: (mode: string) => `/${mode}.json`,
+    CATEGORY_TOPIC_LIST: (categoryId: number, mode: string) => `/c/${categoryId}/l/${mode}.json`,
     TOPIC: (topicId: number) => `/t/${topicId}.json`,
     POSTS: (topicId: number) => `/t/${topicId}/posts.json`,
-    USER_INFO: '/u/current.json'
+    TOPIC_TIMINGS: '/topics/timings',
+    TOPIC_NOTIFICATIONS: (topicId: number) => `/t/${topicId}/notifications`,
+    CATEGORY_NOTIFICATIONS: (categoryId: number) => `/category/${categoryId}/notifications`,
+    USER_INFO: '/u/current.json',
+    SEARCH: '/search.json',
+    POST: (postId: number) => `/posts/${postId}.json`,
+    DRAFTS: '/drafts.json',
+    DRAFT: (draftKey: string) => `/drafts/${encodeURIComponent(draftKey)}.json`,
+    POSTS_CREATE: '/posts.json',
+    TAGS: '/tags.json',
+    TAG_TOPICS: (tagName: string) => `/tag/${encodeURIComponent(tagName)}.json`,
+    NOTIFICATIONS: '/notifications.json',
+    NOTIFICATIONS_MARK_READ: '/notifications/mark-read.json',
+    SESSION_CURRENT: '/session/current.json',
+    PRIVATE_MESSAGES: (box: string, username: string) =>
+      box === 'inbox'
+        ? `/topics/private-messages/${encodeURIComponent(username)}.json`
+        : `/topics/private-messages-${box}/${encodeURIComponent(username)}.json`,
+    USER_SEARCH: '/u/search/users.json',
+    USER_BOOKMARKS: (username: string) => `/u/${encodeURIComponent(username)}/bookmarks.json`,
+    BOOKMARKS: '/bookmarks.json',
+    BOOKMARK: (bookmarkId: number) => `/bookmarks/${bookmarkId}.json`,
+    USER_API_KEY_NEW: '/user-api-key/new',
+    USER_API_KEY_REVOKE: '/user-api-key/revoke'
   }
 };
@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { AuthExpiredError, ChallengeRequiredError, NetworkError, RateLimitedError } from '../api/ApiErrors';
+
+// 同一类错误在这段时间内只提示一次，避免展开多个节点时重复弹出
+const DUPLICATE_INTERVAL = 5000;
+
+let lastShown: { kind: string; time: number } | undefined;
+
+/**
+ * 统一显示请求错误，并按错误类型给出对应操作
+ * @param error 捕获到的错误
+ * @param prefix 操作说明，例如 "打开话题失败"，服务层已带说明时不需要
+ */
+export function showError(error: any, prefix?: string): void {
+  // 用户取消的请求不提示
+  if (error instanceof vscode.CancellationError) {
+    return;
+  }
+
+  const message = prefix ? `${prefix}: ${error.message}` : error.message;
+
+  if (error instanceof AuthExpiredError) {
+    if (shouldShow('auth')) {
+      vscode.window.showWarningMessage(vscode.l10n.t('登录已过期或未登录，请先登录'), vscode.l10n.t('登录')).then(result => {
+        if (result === vscode.l10n.t('登录')) {
+          vscode.commands.executeCommand('linuxdo.login');
+        }
+      });
+    }
+  } else if (error instanceof ChallengeRequiredError) {
+    if (shouldShow('challenge')) {
+      vscode.window.showWarningMessage(
+        vscode.l10n.t('{0}。请在浏览器中打开并通过验证，然后重新登录以更新 Cookie', error.message),
+        vscode.l10n.t('在浏览器中打开'),
+        vscode.l10n.t('重新登录')
+      ).then(result => {
+        if (result === vscode.l10n.t('在浏览器中打开')) {
+          vscode.env.openExternal(vscode.Uri.parse(error.url));
+        } else if (result === vscode.l10n.t('重新登录')) {
+          vscode.commands.executeCommand('linuxdo.login');
+        }
+      });
+    }
+  } else if (error instanceof RateLimitedError) {
+    if (shouldShow('rateLimited')) {
+      vscode.window.showWarningMessage(message);
+    }
+  } else if (error instanceof NetworkError) {
+    if (shouldShow('network')) {
+      vscode.window.showErrorMessage(message);
+    }
+  } else {
+    vscode.window.showErrorMessage(message, vscode.l10n.t('查看日志')).then(result => {
+      if (result === vscode.l10n.t('查看日志')) {
+        vscode.commands.executeCommand('workbench.action.toggleDevTools');
+      }
+    });
+  }
+}
+
+function shouldShow(kind: string): boolean {
+  const now = Date.now();
+  if (lastShown && lastShown.kind === kind && now - lastShown.time < DUPLICATE_INTERVAL) {
+    return false;
+  }
+  lastShown = { kind, time: now };
+  return true;
+}
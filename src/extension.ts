@@ -1,109 +1,469 @@
 import * as vscode from 'vscode';
-import { LinuxDoTreeDataProvider } from './treeView/LinuxDoTreeDataProvider';
-import { DiscourseApiClient } from './api/DiscourseApiClient';
-import { AuthenticationManager } from './auth/AuthenticationManager';
-import { CookieStorage } from './auth/CookieStorage';
-import { CategoryService } from './services/CategoryService';
-import { TopicService } from './services/TopicService';
-import { PostService } from './services/PostService';
-import { TreeItemNode } from './treeView/TreeItemNode';
+import { TOPIC_LIST_MODE_LABELS, TOP_PERIOD_LABELS, getTopicListFilterLabel } from './services/TopicService';
+import { TOAST_NOTIFICATION_TYPES, getNotificationText, getNotificationUrl } from './services/NotificationService';
+import { TreeItemNode, NodeType } from './treeView/TreeItemNode';
+import { SiteTreeDataProvider } from './treeView/SiteTreeDataProvider';
+import { TopicDecorationProvider } from './treeView/TopicDecorationProvider';
+import type { TopicListFilter, TopicListMode, TopPeriod } from './api/ApiTypes';
+import { TopicReaderPanel } from './webview/TopicReaderPanel';
+import { LinuxDoFileSystemProvider } from './fileSystem/LinuxDoFileSystemProvider';
+import { showSearchQuickPick } from './search/SearchQuickPick';
+import { ComposerManager } from './composer/ComposerManager';
+import { pickBookmarkReminder } from './bookmarks/BookmarkReminderPicker';
+import { pickAccount } from './auth/AccountQuickPick';
+import { pickNotificationLevel, getNotificationLevelOption } from './notifications/NotificationLevelPicker';
+import { SiteManager, SiteTarget } from './sites/SiteManager';
+import { showError } from './errors/ErrorHandler';
+
+// 等待已打开的话题文档重新加载的最长时间
+const DOCUMENT_RELOAD_TIMEOUT = 5000;
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log('Linux.do Explorer 插件已激活');
 
-  const cookieStorage = new CookieStorage(context.secrets);
-
-  const apiClient = new DiscourseApiClient(
-    async () => {
-      return await cookieStorage.getCookie();
-    },
-    async () => {
-      return await cookieStorage.getUserAgent();
-    }
-  );
+  const siteManager = await SiteManager.create(context);
+  const sessions = siteManager.sessions;
 
-  const authManager = new AuthenticationManager(context, cookieStorage, apiClient);
+  const treeDataProvider = new SiteTreeDataProvider(siteManager);
 
-  const categoryService = new CategoryService(apiClient);
-  const topicService = new TopicService(apiClient);
-  const postService = new PostService(apiClient);
+  const fileSystemProvider = new LinuxDoFileSystemProvider(siteId => siteManager.get(siteId));
 
-  const treeDataProvider = new LinuxDoTreeDataProvider(
-    categoryService,
-    topicService,
-    postService
-  );
+  const composerManager = new ComposerManager(context);
+  composerManager.onDidSubmit(({ siteSession, topicId, slug, isNewTopic, isPrivateMessage }) => {
+    siteSession.treeDataProvider.invalidateTopic(topicId);
+    fileSystemProvider.invalidate(siteSession.site, topicId);
+    // 私信会话在阅读器中打开，新话题以文档形式打开
+    if (isPrivateMessage) {
+      TopicReaderPanel.show(siteSession, topicId).catch(error => {
+        console.error('[Extension] 打开私信失败:', error);
+      });
+    } else if (isNewTopic) {
+      vscode.commands.executeCommand('vscode.open', LinuxDoFileSystemProvider.getTopicUri(siteSession.site.id, 'latest', topicId, slug || ''));
+    }
+  });
 
   const treeView = vscode.window.createTreeView('linuxdoExplorer', {
     treeDataProvider,
     showCollapseAll: true
   });
 
+  // 状态栏和视图徽标显示所有站点的未读通知数量
+  const notificationStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+  notificationStatusBarItem.command = 'linuxdoExplorer.focus';
+
+  const updateNotificationBadge = () => {
+    const unreadCounts = sessions.map(session => ({ session, count: session.notificationService.getUnreadCount() }));
+    const unreadCount = unreadCounts.reduce((total, { count }) => total + count, 0);
+    treeView.badge = unreadCount > 0
+      ? { value: unreadCount, tooltip: vscode.l10n.t('{0} 条未读通知', unreadCount) }
+      : undefined;
+    notificationStatusBarItem.text = unreadCount > 0 ? `$(bell-dot) ${unreadCount}` : '$(bell)';
+    notificationStatusBarItem.tooltip = unreadCounts
+      .filter(({ session }) => session.isLoggedIn())
+      .map(({ session, count }) => `${session.site.name}: ${count > 0 ? vscode.l10n.t('{0} 条未读通知', count) : vscode.l10n.t('没有未读通知')}`)
+      .join('\n');
+  };
+
+  // 视图标题显示当前账号，网络不可用时显示离线状态
+  // 多个站点时账号显示在各站点节点上
+  const updateViewDescription = () => {
+    treeView.description = siteManager.isMultiSite ? undefined : sessions[0].getDescription();
+    treeView.message = sessions.some(session => session.responseCache.isOffline()) ? vscode.l10n.t('网络不可用，正在显示缓存内容') : undefined;
+  };
+
+  for (const session of sessions) {
+    session.notificationService.onDidChangeNotifications(() => {
+      updateNotificationBadge();
+      session.treeDataProvider.refreshNotifications();
+    });
+
+    session.notificationService.onDidReceiveNotifications(async notifications => {
+      const showToasts = vscode.workspace.getConfiguration('linuxdo').get<boolean>('notifications.showToasts', true);
+      if (!showToasts) {
+        return;
+      }
+
+      const prefix = siteManager.isMultiSite ? `[${session.site.name}] ` : '';
+      for (const notification of notifications.filter(n => TOAST_NOTIFICATION_TYPES.has(n.notification_type))) {
+        vscode.window.showInformationMessage(`${prefix}${getNotificationText(notification)}`, vscode.l10n.t('打开'), vscode.l10n.t('标记已读')).then(async result => {
+          if (result === vscode.l10n.t('打开')) {
+            await session.notificationService.markAsRead(notification.id);
+            vscode.env.openExternal(vscode.Uri.parse(getNotificationUrl(notification, session.site)));
+          } else if (result === vscode.l10n.t('标记已读')) {
+            await session.notificationService.markAsRead(notification.id);
+          }
+        });
+      }
+    });
+
+    // 切换账号后丢弃按上一个账号加载的话题文档和阅读面板
+    session.onDidChangeAccount(() => {
+      fileSystemProvider.invalidateSite(session.site);
+      TopicReaderPanel.closeAll(session.site.id);
+    });
+
+    // 登录或退出登录后更新视图标题和状态栏
+    session.onDidChangeStatus(() => {
+      updateViewDescription();
+      updateNotificationBadge();
+      if (sessions.some(s => s.isLoggedIn())) {
+        notificationStatusBarItem.show();
+      } else {
+        notificationStatusBarItem.hide();
+      }
+    });
+  }
+
+  // 站点列表在激活时创建，修改后需要重新加载窗口
+  const configurationListener = vscode.workspace.onDidChangeConfiguration(async event => {
+    if (event.affectsConfiguration('linuxdo.sites')) {
+      const result = await vscode.window.showInformationMessage(vscode.l10n.t('站点列表已修改，重新加载窗口后生效'), vscode.l10n.t('重新加载'));
+      if (result === vscode.l10n.t('重新加载')) {
+        vscode.commands.executeCommand('workbench.action.reloadWindow');
+      }
+    }
+  });
+
   context.subscriptions.push(
     vscode.commands.registerCommand('linuxdo.refresh', () => {
-      vscode.window.showInformationMessage('正在刷新...');
-      treeDataProvider.refresh();
+      vscode.window.showInformationMessage(vscode.l10n.t('正在刷新...'));
+      for (const session of sessions) {
+        session.responseCache.expire();
+        session.treeDataProvider.resetTopicLists();
+        session.treeDataProvider.refresh();
+      }
     }),
 
-    vscode.commands.registerCommand('linuxdo.login', async () => {
-      await authManager.showLoginWebview();
+    vscode.commands.registerCommand('linuxdo.login', async (target?: SiteTarget) => {
+      const session = await siteManager.resolve(target, vscode.l10n.t('选择要登录的站点'));
+      await session?.authManager.showLoginWebview();
     }),
 
-    vscode.commands.registerCommand('linuxdo.logout', async () => {
+    vscode.commands.registerCommand('linuxdo.switchAccount', async (target?: SiteTarget) => {
+      const session = await siteManager.resolve(target, vscode.l10n.t('选择要切换账号的站点'));
+      if (!session) {
+        return;
+      }
+      const accountId = await pickAccount(session.site, session.cookieStorage);
+      if (!accountId) {
+        return;
+      }
+      if (accountId === 'add') {
+        await session.cookieStorage.addAccount();
+        await session.authManager.showLoginWebview();
+        return;
+      }
+      await session.cookieStorage.switchAccount(accountId);
+    }),
+
+    vscode.commands.registerCommand('linuxdo.logout', async (target?: SiteTarget) => {
+      const session = await siteManager.resolve(target, vscode.l10n.t('选择要退出登录的站点'));
+      if (!session) {
+        return;
+      }
       const result = await vscode.window.showWarningMessage(
-        '确定要退出登录吗？',
-        '确定',
-        '取消'
+        siteManager.isMultiSite ? vscode.l10n.t('确定要退出 {0} 的登录吗？', session.site.name) : vscode.l10n.t('确定要退出登录吗？'),
+        vscode.l10n.t('确定'),
+        vscode.l10n.t('取消')
       );
-      if (result === '确定') {
-        await cookieStorage.deleteCookie();
-        vscode.window.showInformationMessage('已退出登录');
-        treeDataProvider.refresh();
+      if (result === vscode.l10n.t('确定')) {
+        // 吊销 User API Key，失败也继续退出
+        try {
+          await session.apiClient.revokeUserApiKey();
+        } catch (error: any) {
+          console.error('[Extension] 吊销 User API Key 失败:', error.message);
+        }
+        await session.cookieStorage.deleteCookie();
+        vscode.window.showInformationMessage(vscode.l10n.t('已退出登录'));
       }
     }),
 
-    vscode.commands.registerCommand('linuxdo.openInBrowser', (node: TreeItemNode) => {
+    vscode.commands.registerCommand('linuxdo.openInBrowser', async (node: TreeItemNode) => {
       if (node.data.url) {
         vscode.env.openExternal(vscode.Uri.parse(node.data.url));
       } else if (node.data.topicId) {
-        const url = `https://linux.do/t/${node.data.topicId}`;
-        vscode.env.openExternal(vscode.Uri.parse(url));
+        const session = await siteManager.resolve(node);
+        if (session) {
+          vscode.env.openExternal(vscode.Uri.parse(session.site.topicUrl(node.data.slug, node.data.topicId)));
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.openTopic', async (node: TreeItemNode) => {
+      if (!node.data.topicId) {
+        vscode.window.showErrorMessage(vscode.l10n.t('无法获取话题ID'));
+        return;
+      }
+      const session = await siteManager.resolve(node);
+      if (!session) {
+        return;
+      }
+
+      try {
+        await TopicReaderPanel.show(session, node.data.topicId, node.data.postNumber ?? node.data.firstUnreadPostNumber);
+      } catch (error: any) {
+        showError(error, vscode.l10n.t('打开话题失败'));
+      }
+    }),
+
+    // 打开话题文档并跳转到第一条未读回复
+    vscode.commands.registerCommand('linuxdo.openTopicDocument', async (uri: vscode.Uri, postNumber: number, highestPostNumber?: number) => {
+      const session = siteManager.get(uri.authority);
+      const topicId = LinuxDoFileSystemProvider.parseTopicId(uri);
+      // 列表中有比文档更新的回复时重新加载话题内容
+      if (session && topicId !== undefined && highestPostNumber
+        && fileSystemProvider.invalidateIfOutdated(session.site, topicId, highestPostNumber)) {
+        await session.apiClient.invalidateTopicPosts(topicId);
+      }
+
+      try {
+        // 先读取最新内容，已打开的旧文档收到文件变化通知后才会重新加载，跳转前需要等待
+        const content = Buffer.from(await fileSystemProvider.readFile(uri)).toString('utf-8');
+        const editor = await vscode.window.showTextDocument(uri);
+        await waitForDocumentContent(editor.document, content);
+        const line = LinuxDoFileSystemProvider.findPostLine(editor.document, postNumber);
+        if (line !== undefined) {
+          const position = new vscode.Position(line, 0);
+          editor.selection = new vscode.Selection(position, position);
+          editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop);
+        }
+      } catch (error: any) {
+        showError(error, vscode.l10n.t('打开话题失败'));
       }
     }),
 
     vscode.commands.registerCommand('linuxdo.replyToTopic', async (node: TreeItemNode) => {
       if (!node.data.topicId) {
-        vscode.window.showErrorMessage('无法获取话题ID');
+        vscode.window.showErrorMessage(vscode.l10n.t('无法获取话题ID'));
+        return;
+      }
+
+      const session = await siteManager.resolve(node);
+      if (!session) {
         return;
       }
 
       // 判断是回复话题还是回复回复
-      const isReplyToPost = !!node.data.postId;
-      const promptText = isReplyToPost ? '请输入回复内容' : '请输入回复内容';
-
-      const replyContent = await vscode.window.showInputBox({
-        prompt: promptText,
-        placeHolder: '输入你的回复...',
-        validateInput: (value) => {
-          if (!value || value.trim().length === 0) {
-            return '回复内容不能为空';
-          }
-          return null;
+      const isReplyToPost = node.data.type === NodeType.POST && !!node.data.postNumber;
+
+      try {
+        await composerManager.openReply(session, node.data.topicId, {
+          topicTitle: node.data.type === NodeType.TOPIC || node.data.type === NodeType.MESSAGE ? node.data.label : undefined,
+          replyToPostId: isReplyToPost ? node.data.postId : undefined,
+          replyToPostNumber: isReplyToPost ? node.data.postNumber : undefined
+        });
+      } catch (error: any) {
+        showError(error, vscode.l10n.t('打开编辑器失败'));
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.quotePost', async (node: TreeItemNode) => {
+      if (!node.data.topicId || !node.data.postId) {
+        vscode.window.showErrorMessage(vscode.l10n.t('无法获取帖子ID'));
+        return;
+      }
+      const session = await siteManager.resolve(node);
+      if (!session) {
+        return;
+      }
+
+      try {
+        const post = await session.postService.getPost(node.data.postId);
+        const quote = `[quote="${post.username}, post:${post.post_number}, topic:${node.data.topicId}"]\n${(post.raw || '').trim()}\n[/quote]\n`;
+        await composerManager.openReply(session, node.data.topicId, {
+          replyToPostId: post.id,
+          replyToPostNumber: post.post_number,
+          quote
+        });
+      } catch (error: any) {
+        showError(error, vscode.l10n.t('引用失败'));
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.bookmark', async (node: TreeItemNode) => {
+      // 回复节点收藏单条帖子，话题节点收藏整个话题
+      const isPost = node.data.type === NodeType.POST && !!node.data.postId;
+      const bookmarkableId = isPost ? node.data.postId : node.data.topicId;
+      if (!bookmarkableId) {
+        vscode.window.showErrorMessage(vscode.l10n.t('无法获取帖子ID'));
+        return;
+      }
+
+      const session = await siteManager.resolve(node);
+      if (!session) {
+        return;
+      }
+
+      const reminderAt = await pickBookmarkReminder(isPost ? vscode.l10n.t('收藏 #{0} 楼', node.data.postNumber!) : vscode.l10n.t('收藏「{0}」', node.data.label));
+      if (reminderAt === undefined) {
+        return;
+      }
+
+      try {
+        await session.bookmarkService.createBookmark(isPost ? 'Post' : 'Topic', bookmarkableId, reminderAt || undefined);
+        if (node.data.topicId) {
+          await session.apiClient.invalidateTopic(node.data.topicId);
         }
-      });
+        vscode.window.showInformationMessage(vscode.l10n.t('已添加书签'));
+        session.treeDataProvider.refreshBookmarks();
+      } catch (error: any) {
+        showError(error);
+      }
+    }),
 
-      if (replyContent) {
-        try {
-          await apiClient.createReply(node.data.topicId, replyContent);
-          vscode.window.showInformationMessage('回复成功!');
-          treeDataProvider.refresh();
-        } catch (error: any) {
-          vscode.window.showErrorMessage(`回复失败: ${error.message}`);
+    vscode.commands.registerCommand('linuxdo.editBookmarkReminder', async (node: TreeItemNode) => {
+      const session = await siteManager.resolve(node);
+      if (!node.data.bookmarkId || !session) {
+        return;
+      }
+
+      const reminderAt = await pickBookmarkReminder(vscode.l10n.t('修改「{0}」的提醒', node.data.label));
+      if (reminderAt === undefined) {
+        return;
+      }
+
+      try {
+        await session.bookmarkService.updateReminder(node.data.bookmarkId, reminderAt);
+        if (node.data.topicId) {
+          await session.apiClient.invalidateTopic(node.data.topicId);
         }
+        vscode.window.showInformationMessage(reminderAt ? vscode.l10n.t('已更新提醒时间') : vscode.l10n.t('已清除提醒'));
+        session.treeDataProvider.refreshBookmarks();
+      } catch (error: any) {
+        showError(error);
       }
     }),
 
+    vscode.commands.registerCommand('linuxdo.removeBookmark', async (node: TreeItemNode) => {
+      const session = await siteManager.resolve(node);
+      if (!node.data.bookmarkId || !session) {
+        return;
+      }
+
+      try {
+        await session.bookmarkService.deleteBookmark(node.data.bookmarkId);
+        if (node.data.topicId) {
+          await session.apiClient.invalidateTopic(node.data.topicId);
+        }
+        vscode.window.showInformationMessage(vscode.l10n.t('已删除书签'));
+        session.treeDataProvider.refreshBookmarks();
+      } catch (error: any) {
+        showError(error);
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.setNotificationLevel', async (node: TreeItemNode) => {
+      const session = await siteManager.resolve(node);
+      const isCategory = node.data.type === NodeType.CATEGORY;
+      const id = isCategory ? node.data.categoryId : node.data.topicId;
+      if (!session || id === undefined) {
+        return;
+      }
+
+      const name = node.data.label.trim();
+      const level = await pickNotificationLevel(vscode.l10n.t('设置「{0}」的通知级别', name), node.data.notificationLevel);
+      if (level === undefined) {
+        return;
+      }
+
+      try {
+        if (isCategory) {
+          await session.categoryService.setNotificationLevel(id, level);
+          session.treeDataProvider.updateCategoryNotificationLevel(id, level);
+        } else {
+          await session.topicService.setNotificationLevel(id, level);
+          session.treeDataProvider.updateTopicNotificationLevel(id, level);
+        }
+        vscode.window.showInformationMessage(vscode.l10n.t('已将「{0}」设为{1}', name, vscode.l10n.t(getNotificationLevelOption(level).label)));
+      } catch (error: any) {
+        showError(error);
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.createTopic', async (node?: TreeItemNode) => {
+      const session = await siteManager.resolve(node, vscode.l10n.t('选择要发布话题的站点'));
+      if (!session) {
+        return;
+      }
+
+      try {
+        await composerManager.openNewTopic(session, {
+          categoryId: node?.data.type === NodeType.CATEGORY ? node.data.categoryId : undefined
+        });
+      } catch (error: any) {
+        showError(error, vscode.l10n.t('打开编辑器失败'));
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.newMessage', async (node?: TreeItemNode) => {
+      const session = await siteManager.resolve(node, vscode.l10n.t('选择要发送私信的站点'));
+      if (!session) {
+        return;
+      }
+
+      try {
+        await composerManager.openNewMessage(session);
+      } catch (error: any) {
+        showError(error, vscode.l10n.t('打开编辑器失败'));
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.shareSelection', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.selection.isEmpty) {
+        vscode.window.showErrorMessage(vscode.l10n.t('请先选中要分享的代码'));
+        return;
+      }
+
+      const document = editor.document;
+      const selection = editor.selection;
+      const code = document.getText(selection).replace(/\s+$/, '');
+      const fileName = vscode.workspace.asRelativePath(document.uri);
+      const lines = selection.start.line === selection.end.line
+        ? `L${selection.start.line + 1}`
+        : `L${selection.start.line + 1}-L${selection.end.line + 1}`;
+      const fence = code.includes('```') ? '````' : '```';
+      const body = `\`${fileName}\` (${lines})\n\n${fence}${toFenceLanguage(document.languageId)}\n${code}\n${fence}\n`;
+
+      const session = await siteManager.resolve(undefined, vscode.l10n.t('选择要分享到的站点'));
+      if (!session) {
+        return;
+      }
+
+      try {
+        await composerManager.openNewTopic(session, { body });
+      } catch (error: any) {
+        showError(error, vscode.l10n.t('打开编辑器失败'));
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.composer.editTopicMetadata', (uri?: vscode.Uri) => composerManager.editTopicMetadata(uri)),
+
+    vscode.commands.registerCommand('linuxdo.openDrafts', async () => {
+      const session = await siteManager.resolve(undefined, vscode.l10n.t('选择要打开草稿的站点'));
+      if (!session) {
+        return;
+      }
+
+      try {
+        await composerManager.openDrafts(session);
+      } catch (error: any) {
+        showError(error);
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.composer.submit', (uri?: vscode.Uri) => composerManager.submit(uri)),
+
+    vscode.commands.registerCommand('linuxdo.composer.preview', (uri?: vscode.Uri) => composerManager.preview(uri)),
+
+    vscode.commands.registerCommand('linuxdo.composer.discard', (uri?: vscode.Uri) => composerManager.discard(uri)),
+
     vscode.commands.registerCommand('linuxdo.likeTopic', async (node: TreeItemNode) => {
+      const session = await siteManager.resolve(node);
+      if (!session) {
+        return;
+      }
+
       try {
         let postId: number;
 
@@ -113,41 +473,109 @@ export async function activate(context: vscode.ExtensionContext) {
         }
         // 如果是话题节点,获取第一个帖子ID
         else if (node.data.topicId) {
-          const posts = await apiClient.getTopicPosts(node.data.topicId);
+          const posts = await session.apiClient.getTopicPosts(node.data.topicId);
           if (posts.length === 0) {
-            vscode.window.showErrorMessage('无法找到帖子');
+            vscode.window.showErrorMessage(vscode.l10n.t('无法找到帖子'));
             return;
           }
           postId = posts[0].id;
         }
         else {
-          vscode.window.showErrorMessage('无法获取帖子ID');
+          vscode.window.showErrorMessage(vscode.l10n.t('无法获取帖子ID'));
           return;
         }
 
-        await apiClient.likePost(postId);
-        vscode.window.showInformationMessage('点赞成功');
+        await session.apiClient.likePost(postId);
+        vscode.window.showInformationMessage(vscode.l10n.t('点赞成功'));
       } catch (error: any) {
-        vscode.window.showErrorMessage(`点赞失败: ${error.message}`);
+        showError(error, vscode.l10n.t('点赞失败'));
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.refreshNode', async (node: TreeItemNode) => {
+      const session = await siteManager.resolve(node);
+      if (!session) {
+        return;
+      }
+      vscode.window.showInformationMessage(vscode.l10n.t('正在刷新...'));
+      session.responseCache.expire();
+      // 站点节点刷新整个站点
+      if (node.data.type === NodeType.SITE) {
+        session.treeDataProvider.resetTopicLists();
+        session.treeDataProvider.refresh();
+        return;
+      }
+      if (node.data.type === NodeType.TOPIC && node.data.topicId) {
+        fileSystemProvider.invalidate(session.site, node.data.topicId);
+      }
+      if (node.data.type === NodeType.ALL_TOPICS || node.data.type === NodeType.CATEGORY || node.data.type === NodeType.TAG) {
+        session.treeDataProvider.resetTopicLists(node);
+      }
+      session.treeDataProvider.refreshNode(node);
+    }),
+
+    vscode.commands.registerCommand('linuxdo.selectTopicListMode', async (node: TreeItemNode) => {
+      const session = await siteManager.resolve(node);
+      if (!session) {
+        return;
+      }
+      const categoryId = node.data.type === NodeType.CATEGORY ? node.data.categoryId : undefined;
+      const current = getTopicListFilterLabel(session.treeDataProvider.getTopicListFilter(categoryId));
+
+      // 排行榜按周期展开为多个选项
+      const filters: TopicListFilter[] = [
+        ...(Object.keys(TOPIC_LIST_MODE_LABELS) as TopicListMode[])
+          .filter(mode => mode !== 'top')
+          .map(mode => ({ mode })),
+        ...(Object.keys(TOP_PERIOD_LABELS) as TopPeriod[]).map(period => ({ mode: 'top' as const, period }))
+      ];
+
+      const selected = await vscode.window.showQuickPick(
+        filters.map(filter => ({
+          label: getTopicListFilterLabel(filter),
+          description: getTopicListFilterLabel(filter) === current ? vscode.l10n.t('当前') : undefined,
+          filter
+        })),
+        { placeHolder: vscode.l10n.t('选择「{0}」的话题排序方式', node.data.label.trim()) }
+      );
+      if (selected) {
+        await session.treeDataProvider.setTopicListFilter(node, selected.filter);
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.search', async (node?: TreeItemNode) => {
+      const session = await siteManager.resolve(node, vscode.l10n.t('选择要搜索的站点'));
+      if (session) {
+        showSearchQuickPick(session);
       }
     }),
 
-    vscode.commands.registerCommand('linuxdo.refreshNode', (node: TreeItemNode) => {
-      vscode.window.showInformationMessage('正在刷新...');
-      treeDataProvider.refreshNode(node);
+    vscode.commands.registerCommand('linuxdo.clearSearchResults', async (node: TreeItemNode) => {
+      const session = await siteManager.resolve(node);
+      session?.treeDataProvider.clearSearchResults();
     }),
 
     vscode.commands.registerCommand('linuxdo.loadMore', async (node: TreeItemNode) => {
-      if (node.data.topicId) {
-        await treeDataProvider.loadMorePosts(node.data.topicId);
+      const session = await siteManager.resolve(node);
+      if (!session) {
+        return;
+      }
+      if (node.data.parentType === NodeType.NOTIFICATIONS) {
+        await session.treeDataProvider.loadMoreNotifications();
+      } else if (node.data.parentType === NodeType.ALL_TOPICS || node.data.parentType === NodeType.CATEGORY || node.data.parentType === NodeType.TAG) {
+        await session.treeDataProvider.loadMoreTopics(node);
+      } else if (node.data.searchQuery) {
+        await session.treeDataProvider.loadMoreSearchResults();
+      } else if (node.data.topicId) {
+        await session.treeDataProvider.loadMorePosts(node.data.topicId);
       }
     }),
 
     vscode.commands.registerCommand('linuxdo.openNotification', async (node: TreeItemNode) => {
       if (node.data.url) {
         // 先标记为已读
-        if (node.data.notificationId) {
-          await treeDataProvider.markNotificationAsRead(node.data.notificationId);
+        if (node.data.notificationId && !node.data.read) {
+          await siteManager.get(node.data.siteId)?.treeDataProvider.markNotificationAsRead(node.data.notificationId);
         }
         // 在浏览器中打开
         vscode.env.openExternal(vscode.Uri.parse(node.data.url));
@@ -155,30 +583,111 @@ export async function activate(context: vscode.ExtensionContext) {
     }),
 
     vscode.commands.registerCommand('linuxdo.markNotificationAsRead', async (node: TreeItemNode) => {
-      if (node.data.notificationId) {
-        await treeDataProvider.markNotificationAsRead(node.data.notificationId);
-        vscode.window.showInformationMessage('已标记为已读');
+      const session = siteManager.get(node.data.siteId);
+      if (node.data.notificationId && session) {
+        await session.treeDataProvider.markNotificationAsRead(node.data.notificationId);
+        vscode.window.showInformationMessage(vscode.l10n.t('已标记为已读'));
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.markAllNotificationsRead', async (node?: TreeItemNode) => {
+      const session = await siteManager.resolve(node, vscode.l10n.t('选择站点'));
+      if (!session) {
+        return;
       }
+
+      try {
+        await session.notificationService.markAllAsRead();
+        vscode.window.showInformationMessage(vscode.l10n.t('已将全部通知标记为已读'));
+      } catch (error: any) {
+        showError(error);
+      }
+    }),
+
+    vscode.commands.registerCommand('linuxdo.showReadNotifications', async (node?: TreeItemNode) => {
+      const session = await siteManager.resolve(node, vscode.l10n.t('选择站点'));
+      session?.treeDataProvider.setShowReadNotifications(true);
     }),
 
-    treeView
+    vscode.commands.registerCommand('linuxdo.hideReadNotifications', async (node?: TreeItemNode) => {
+      const session = await siteManager.resolve(node, vscode.l10n.t('选择站点'));
+      session?.treeDataProvider.setShowReadNotifications(false);
+    }),
+
+    vscode.workspace.registerFileSystemProvider(LinuxDoFileSystemProvider.scheme, fileSystemProvider, {
+      isCaseSensitive: true,
+      isReadonly: true
+    }),
+    vscode.window.registerFileDecorationProvider(new TopicDecorationProvider()),
+
+    treeView,
+    vscode.window.registerUriHandler(siteManager),
+    // 折叠节点时取消尚未完成的加载
+    treeView.onDidCollapseElement(event => {
+      treeDataProvider.cancelLoading(event.element);
+    }),
+    treeDataProvider,
+    siteManager,
+    configurationListener,
+    notificationStatusBarItem
   );
 
-  const hasCookie = await cookieStorage.hasCookie();
-  if (!hasCookie) {
+  updateViewDescription();
+  const loggedIn = await Promise.all(sessions.map(session => session.start()));
+  if (!loggedIn.some(Boolean)) {
     const result = await vscode.window.showInformationMessage(
-      '欢迎使用 Linux.do Explorer 先登录再摸鱼哦>_<',
-      '登录',
-      '稍后'
+      vscode.l10n.t('欢迎使用 Linux.do Explorer 先登录再摸鱼哦>_<'),
+      vscode.l10n.t('登录'),
+      vscode.l10n.t('稍后')
     );
-    if (result === '登录') {
-      await authManager.showLoginWebview();
+    if (result === vscode.l10n.t('登录')) {
+      vscode.commands.executeCommand('linuxdo.login');
     }
   } else {
-    vscode.window.showInformationMessage('Linux.do Explorer 已就绪！');
+    updateNotificationBadge();
+    notificationStatusBarItem.show();
+    vscode.window.showInformationMessage(vscode.l10n.t('Linux.do Explorer 已就绪！'));
   }
 }
 
+/**
+ * 将 VS Code 的语言 ID 转换为代码块的语言标记
+ */
+/**
+ * 等待已打开的文档重新加载为指定内容，超时后继续使用当前内容
+ */
+function waitForDocumentContent(document: vscode.TextDocument, content: string): Promise<void> {
+  if (document.getText() === content) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      listener.dispose();
+      resolve();
+    };
+    const timer = setTimeout(done, DOCUMENT_RELOAD_TIMEOUT);
+    const listener = vscode.workspace.onDidChangeTextDocument(event => {
+      if (event.document === document && document.getText() === content) {
+        done();
+      }
+    });
+  });
+}
+
+function toFenceLanguage(languageId: string): string {
+  const aliases: Record<string, string> = {
+    typescriptreact: 'tsx',
+    javascriptreact: 'jsx',
+    shellscript: 'bash',
+    plaintext: 'text',
+    csharp: 'cs',
+    'objective-c': 'objectivec',
+    dockercompose: 'yaml'
+  };
+  return aliases[languageId] || languageId;
+}
+
 export function deactivate() {
   console.log('Linux.do Explorer 插件已停用');
 }
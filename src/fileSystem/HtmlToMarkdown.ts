@@ -0,0 +1,136 @@
+import { decodeEntities, resolveUrl } from '../webview/PostRenderer';
+import type { Site } from '../sites/Site';
+
+function getAttribute(attributes: string, name: string): string {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'));
+  if (!match) {
+    return '';
+  }
+  return decodeEntities(match[2] ?? match[3] ?? '');
+}
+
+function toAbsoluteUrl(url: string, site: Site): string {
+  return resolveUrl(url, site) || url;
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .trim()
+    .split('\n')
+    .map(line => line.length > 0 ? `${prefix}${line}` : prefix.trimEnd())
+    .join('\n');
+}
+
+/**
+ * 把 Discourse 的 cooked HTML 转换为 Markdown
+ */
+export function htmlToMarkdown(html: string, site: Site): string {
+  // 代码块先替换为占位符，避免内容被后续规则改写
+  const codeBlocks: string[] = [];
+  let markdown = html.replace(/<pre[^>]*>\s*<code([^>]*)>([\s\S]*?)<\/code>\s*<\/pre>/gi, (_match, attributes: string, code: string) => {
+    const langMatch = getAttribute(attributes, 'class').match(/lang-([\w+#-]+)/);
+    const language = langMatch && langMatch[1] !== 'auto' ? langMatch[1] : '';
+    const content = decodeEntities(code.replace(/<[^>]*>/g, '')).replace(/\n$/, '');
+    const fence = content.includes('```') ? '````' : '```';
+    codeBlocks.push(`${fence}${language}\n${content}\n${fence}`);
+    return `\n\n\u0000CODE${codeBlocks.length - 1}\u0000\n\n`;
+  });
+
+  markdown = markdown
+    // 图片下方的文件名和尺寸信息
+    .replace(/<div class="meta">[\s\S]*?<\/div>/gi, '')
+    .replace(/<(script|style|svg)\b[\s\S]*?<\/\1>/gi, '');
+
+  // 链接预览只保留标题链接
+  markdown = markdown.replace(/<aside[^>]*class="[^"]*onebox[^"]*"[^>]*>([\s\S]*?)<\/aside>/gi, (_match, inner: string) => {
+    const linkMatch = inner.match(/<h3[^>]*>\s*<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/i) || inner.match(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/i);
+    if (!linkMatch) {
+      return '';
+    }
+    const title = decodeEntities(linkMatch[2].replace(/<[^>]*>/g, '')).trim();
+    const url = toAbsoluteUrl(decodeEntities(linkMatch[1]), site);
+    return `\n\n[${title || url}](${url})\n\n`;
+  });
+
+  // 引用其他回复
+  markdown = markdown.replace(/<aside([^>]*class="[^"]*quote[^"]*"[^>]*)>[\s\S]*?<blockquote>([\s\S]*?)<\/blockquote>\s*<\/aside>/gi, (_match, attributes: string, inner: string) => {
+    const username = getAttribute(attributes, 'data-username');
+    const header = username ? `**${username}:**\n\n` : '';
+    return `\n\n\u0001QUOTE${header}${inner}\u0001ENDQUOTE\n\n`;
+  });
+  markdown = markdown
+    .replace(/<blockquote[^>]*>/gi, '\n\n\u0001QUOTE')
+    .replace(/<\/blockquote>/gi, '\u0001ENDQUOTE\n\n');
+
+  markdown = markdown
+    .replace(/<img([^>]*)>/gi, (_match, attributes: string) => {
+      const alt = getAttribute(attributes, 'alt');
+      if (/\bemoji\b/.test(getAttribute(attributes, 'class'))) {
+        return alt;
+      }
+      return `![${alt}](${toAbsoluteUrl(getAttribute(attributes, 'src'), site)})`;
+    })
+    .replace(/<a([^>]*)>([\s\S]*?)<\/a>/gi, (_match, attributes: string, text: string) => {
+      const href = getAttribute(attributes, 'href');
+      if (!href) {
+        return text;
+      }
+      const url = toAbsoluteUrl(href, site);
+      // 图片灯箱链接直接使用图片本身
+      if (text.trim().startsWith('![')) {
+        return text;
+      }
+      return `[${text.trim() || url}](${url})`;
+    })
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, text: string) => `\n\n${'#'.repeat(Number(level))} ${text.trim()}\n\n`)
+    .replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<(del|s|strike)>([\s\S]*?)<\/\1>/gi, '~~$2~~')
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<br\s*\/?>/gi, '  \n')
+    .replace(/<hr[^>]*>/gi, '\n\n---\n\n');
+
+  // 列表：有序列表先处理，避免与无序列表混淆
+  markdown = markdown.replace(/<ol[^>]*>([\s\S]*?)<\/ol>/gi, (_match, inner: string) => {
+    let index = 0;
+    return '\n\n' + inner.replace(/<li[^>]*>/gi, () => `\n${++index}. `).replace(/<\/li>/gi, '') + '\n\n';
+  });
+  markdown = markdown
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/li>/gi, '')
+    .replace(/<\/?(ul|ol)[^>]*>/gi, '\n\n');
+
+  // 表格简单转换为竖线分隔的行
+  markdown = markdown
+    .replace(/<\/t[hd]>\s*<t[hd][^>]*>/gi, ' | ')
+    .replace(/<tr[^>]*>\s*<t[hd][^>]*>/gi, '\n| ')
+    .replace(/<\/t[hd]>\s*<\/tr>/gi, ' |')
+    .replace(/<\/thead>/gi, '\u0002THEAD')
+    .replace(/<\/?(thead|tbody|tfoot)[^>]*>/gi, '');
+
+  markdown = markdown
+    .replace(/<\/?(p|div|details|summary|table|aside|article|header)[^>]*>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '');
+
+  markdown = decodeEntities(markdown);
+
+  // 表头分隔线
+  markdown = markdown.replace(/(\|[^\n]*\|)\s*\u0002THEAD/g, (_match, header: string) => {
+    const columns = header.split('|').length - 2;
+    return `${header}\n|${' --- |'.repeat(Math.max(columns, 1))}`;
+  });
+
+  // 引用按从内到外的顺序添加前缀
+  const quotePattern = /\u0001QUOTE((?:(?!\u0001QUOTE)[\s\S])*?)\u0001ENDQUOTE/;
+  let quoteMatch: RegExpMatchArray | null;
+  while ((quoteMatch = markdown.match(quotePattern)) !== null) {
+    markdown = markdown.replace(quoteMatch[0], () => prefixLines(quoteMatch![1].replace(/\n{3,}/g, '\n\n'), '> '));
+  }
+
+  markdown = markdown
+    .replace(/[ \t]+\n/g, match => match.startsWith('  ') ? '  \n' : '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return markdown.replace(/\u0000CODE(\d+)\u0000/g, (_match, index: string) => codeBlocks[Number(index)]);
+}
@@ -0,0 +1,337 @@
+import * as vscode from 'vscode';
+import type { Post, TopicDetail } from '../api/ApiTypes';
+import { DEFAULT_TOPIC_LIST_FILTER } from '../services/TopicService';
+import { getPostBatchSize } from '../services/PostService';
+import type { SiteSession } from '../sites/SiteSession';
+import type { Site } from '../sites/Site';
+import { htmlToMarkdown } from './HtmlToMarkdown';
+
+// 文档最多包含的回复数量，更长的话题在末尾提示到浏览器中查看
+const MAX_DOCUMENT_POSTS = 500;
+
+interface TopicDocument {
+  content: Uint8Array;
+  // 生成文档时话题的最大楼层号，用于判断文档是否过期
+  highestPostNumber: number;
+  ctime: number;
+  mtime: number;
+}
+
+/**
+ * 以只读 Markdown 文档的形式提供话题内容
+ * 路径格式: linuxdo://<站点ID>/c/<分类>/<话题ID>-<slug>.md
+ */
+export class LinuxDoFileSystemProvider implements vscode.FileSystemProvider {
+  static readonly scheme = 'linuxdo';
+
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+
+  // 已转换的话题文档，键为 "站点ID/话题ID"
+  private documents: Map<string, TopicDocument> = new Map();
+
+  /**
+   * @param getSession 根据 URI 中的站点 ID 获取站点，找不到时返回 undefined
+   */
+  constructor(private getSession: (siteId: string) => SiteSession | undefined) { }
+
+  /**
+   * 生成话题文档的 URI
+   */
+  static getTopicUri(siteId: string, category: string | number, topicId: number, slug: string): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: LinuxDoFileSystemProvider.scheme,
+      authority: siteId,
+      path: `/c/${category}/${topicId}-${slug || 'topic'}.md`
+    });
+  }
+
+  /**
+   * 从 URI 中解析话题ID
+   */
+  static parseTopicId(uri: vscode.Uri): number | undefined {
+    const match = uri.path.match(/^\/c\/[^/]+\/(\d+)(?:-[^/]*)?\.md$/);
+    return match ? Number(match[1]) : undefined;
+  }
+
+  /**
+   * 查找楼层标题所在的行，楼层已删除时返回之后第一个楼层的标题
+   */
+  static findPostLine(document: vscode.TextDocument, postNumber: number): number | undefined {
+    for (let line = 0; line < document.lineCount; line++) {
+      const match = document.lineAt(line).text.match(/^## #(\d+) /);
+      if (match && Number(match[1]) >= postNumber) {
+        return line;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 丢弃话题文档缓存，下次读取时重新加载
+   */
+  invalidate(site: Site, topicId: number): void {
+    if (!this.documents.delete(`${site.id}/${topicId}`)) {
+      return;
+    }
+    const uris = vscode.workspace.textDocuments
+      .map(document => document.uri)
+      .filter(uri => uri.scheme === LinuxDoFileSystemProvider.scheme
+        && this.getSession(uri.authority)?.site.id === site.id
+        && LinuxDoFileSystemProvider.parseTopicId(uri) === topicId);
+    this._onDidChangeFile.fire(uris.map(uri => ({ type: vscode.FileChangeType.Changed, uri })));
+  }
+
+  /**
+   * 话题列表显示的最大楼层号比文档中的新时丢弃文档
+   * @returns 是否丢弃了文档
+   */
+  invalidateIfOutdated(site: Site, topicId: number, highestPostNumber: number): boolean {
+    const document = this.documents.get(`${site.id}/${topicId}`);
+    if (!document || document.highestPostNumber >= highestPostNumber) {
+      return false;
+    }
+    this.invalidate(site, topicId);
+    return true;
+  }
+
+  /**
+   * 丢弃站点的全部话题文档，切换账号后调用
+   */
+  invalidateSite(site: Site): void {
+    for (const key of this.documents.keys()) {
+      if (key.startsWith(`${site.id}/`)) {
+        this.documents.delete(key);
+      }
+    }
+    const uris = vscode.workspace.textDocuments
+      .map(document => document.uri)
+      .filter(uri => uri.scheme === LinuxDoFileSystemProvider.scheme
+        && this.getSession(uri.authority)?.site.id === site.id
+        && LinuxDoFileSystemProvider.parseTopicId(uri) !== undefined);
+    this._onDidChangeFile.fire(uris.map(uri => ({ type: vscode.FileChangeType.Changed, uri })));
+  }
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => { });
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const topicId = LinuxDoFileSystemProvider.parseTopicId(uri);
+    if (topicId === undefined) {
+      if (this.isDirectory(uri)) {
+        return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+      }
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    const session = this.resolveSession(uri);
+    const document = this.documents.get(`${session.site.id}/${topicId}`);
+    if (document) {
+      return {
+        type: vscode.FileType.File,
+        ctime: document.ctime,
+        mtime: document.mtime,
+        size: document.content.byteLength,
+        permissions: vscode.FilePermission.Readonly
+      };
+    }
+
+    // 还没有生成文档时只获取话题信息，全部回复在 readFile 中加载
+    try {
+      const topicDetail = await session.postService.getTopic(topicId);
+      return {
+        type: vscode.FileType.File,
+        ctime: topicDetail.created_at ? new Date(topicDetail.created_at).getTime() : 0,
+        // 文档生成后使用文档的修改时间，这里保证和之前的不同，让已打开的文档重新读取
+        mtime: Date.now(),
+        size: 0,
+        permissions: vscode.FilePermission.Readonly
+      };
+    } catch (error: any) {
+      console.error(`[LinuxDoFileSystemProvider] 获取话题 ${topicId} 失败:`, error);
+      throw vscode.FileSystemError.Unavailable(error.message);
+    }
+  }
+
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const session = this.resolveSession(uri);
+    const segments = uri.path.split('/').filter(segment => segment.length > 0);
+
+    if (segments.length === 0) {
+      return [['c', vscode.FileType.Directory]];
+    }
+
+    if (segments.length === 1 && segments[0] === 'c') {
+      const categories = await session.categoryService.getCategories();
+      return categories.map(category => [category.slug, vscode.FileType.Directory]);
+    }
+
+    if (segments.length === 2 && segments[0] === 'c') {
+      const categoryId = await this.resolveCategoryId(session, segments[1]);
+      if (categoryId === undefined) {
+        throw vscode.FileSystemError.FileNotFound(uri);
+      }
+      const { topics } = await session.topicService.getTopics(DEFAULT_TOPIC_LIST_FILTER, categoryId);
+      return topics.map(topic => [`${topic.id}-${topic.slug}.md`, vscode.FileType.File]);
+    }
+
+    throw vscode.FileSystemError.FileNotADirectory(uri);
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const topicId = LinuxDoFileSystemProvider.parseTopicId(uri);
+    if (topicId === undefined) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    const session = this.resolveSession(uri);
+    try {
+      const document = await this.getDocument(session, topicId);
+      return document.content;
+    } catch (error: any) {
+      console.error(`[LinuxDoFileSystemProvider] 读取话题 ${topicId} 失败:`, error);
+      throw vscode.FileSystemError.Unavailable(error.message);
+    }
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  writeFile(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  private isDirectory(uri: vscode.Uri): boolean {
+    const segments = uri.path.split('/').filter(segment => segment.length > 0);
+    return segments.length === 0 || (segments[0] === 'c' && segments.length <= 2);
+  }
+
+  /**
+   * 获取 URI 所属的站点，站点已从设置中移除时找不到
+   */
+  private resolveSession(uri: vscode.Uri): SiteSession {
+    const session = this.getSession(uri.authority);
+    if (!session) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return session;
+  }
+
+  private async resolveCategoryId(session: SiteSession, category: string): Promise<number | undefined> {
+    if (/^\d+$/.test(category)) {
+      return Number(category);
+    }
+    const categories = await session.categoryService.getCategories();
+    return categories.find(item => item.slug === category)?.id;
+  }
+
+  private async getDocument(session: SiteSession, topicId: number): Promise<TopicDocument> {
+    const key = `${session.site.id}/${topicId}`;
+    const cached = this.documents.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const topicDetail = await session.postService.getTopic(topicId);
+    const { posts, cancelled } = await this.loadAllPosts(session, topicDetail);
+    const markdown = this.toMarkdown(session.site, topicDetail, posts);
+
+    const document: TopicDocument = {
+      content: Buffer.from(markdown, 'utf-8'),
+      highestPostNumber: topicDetail.highest_post_number ?? Math.max(0, ...posts.map(post => post.post_number)),
+      ctime: posts.length > 0 ? new Date(posts[0].created_at).getTime() : Date.now(),
+      mtime: Date.now()
+    };
+    // 取消加载时只显示已加载的部分，下次打开重新加载
+    if (!cancelled) {
+      this.documents.set(key, document);
+    }
+    return document;
+  }
+
+  /**
+   * 分批加载话题的回复，每批数量来自设置，最多加载 MAX_DOCUMENT_POSTS 条
+   * 需要分批加载时在通知中显示进度，可以取消
+   */
+  private async loadAllPosts(session: SiteSession, topicDetail: TopicDetail): Promise<{ posts: Post[]; cancelled: boolean }> {
+    const posts = [...(topicDetail.post_stream.posts || [])];
+    const loadedPostIds = new Set(posts.map(post => post.id));
+    const unloadedPostIds = (topicDetail.post_stream.stream || [])
+      .filter(id => !loadedPostIds.has(id))
+      .slice(0, Math.max(MAX_DOCUMENT_POSTS - posts.length, 0));
+    const batchSize = getPostBatchSize();
+
+    let cancelled = false;
+    if (unloadedPostIds.length > 0) {
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('正在加载话题回复...'), cancellable: true },
+        async (progress, token) => {
+          for (let i = 0; i < unloadedPostIds.length && !token.isCancellationRequested; i += batchSize) {
+            const batch = unloadedPostIds.slice(i, i + batchSize);
+            try {
+              const morePosts = await session.postService.loadMoreTopicPosts(topicDetail.id, batch, token);
+              posts.push(...morePosts.filter(post => !loadedPostIds.has(post.id)));
+              morePosts.forEach(post => loadedPostIds.add(post.id));
+            } catch (error) {
+              if (error instanceof vscode.CancellationError) {
+                break;
+              }
+              throw error;
+            }
+            progress.report({ increment: batch.length / unloadedPostIds.length * 100 });
+          }
+          cancelled = token.isCancellationRequested;
+        }
+      );
+    }
+
+    console.log(`[LinuxDoFileSystemProvider] 话题 ${topicDetail.id} 共加载 ${posts.length} 条回复${cancelled ? '（已取消）' : ''}`);
+    return { posts: posts.sort((a, b) => a.post_number - b.post_number), cancelled };
+  }
+
+  private toMarkdown(site: Site, topicDetail: TopicDetail, posts: Post[]): string {
+    const topicUrl = site.topicUrl(topicDetail.slug, topicDetail.id);
+    const lines: string[] = [
+      `# ${topicDetail.title}`,
+      '',
+      `> ${vscode.l10n.t('{0} 条回复', topicDetail.posts_count)} · [${vscode.l10n.t('在浏览器中打开')}](${topicUrl})`,
+      ''
+    ];
+
+    for (const post of posts) {
+      const createdAt = new Date(post.created_at).toLocaleString(vscode.env.language);
+      const replyTo = post.reply_to_post_number ? ` · ${vscode.l10n.t('回复 #{0}', post.reply_to_post_number)}` : '';
+      lines.push(
+        '---',
+        '',
+        `## #${post.post_number} ${post.username} · ${createdAt}${replyTo}`,
+        '',
+        htmlToMarkdown(post.cooked, site),
+        ''
+      );
+    }
+
+    // 没有加载全部回复时在末尾提示
+    const totalPosts = topicDetail.post_stream.stream?.length ?? posts.length;
+    if (posts.length < totalPosts) {
+      lines.push(
+        '---',
+        '',
+        `> ${vscode.l10n.t('只显示了 {0}/{1} 条回复', posts.length, totalPosts)} · [${vscode.l10n.t('在浏览器中查看全部')}](${topicUrl})`,
+        ''
+      );
+    }
+
+    return lines.join('\n');
+  }
+}
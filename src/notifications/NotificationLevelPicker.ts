@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { NotificationLevel } from '../api/ApiTypes';
+
+export interface NotificationLevelOption {
+  level: NotificationLevel;
+  label: string;
+  description: string;
+  icon: string;
+}
+
+// 通知级别的名称和说明，显示时再翻译
+export const NOTIFICATION_LEVEL_OPTIONS: NotificationLevelOption[] = [
+  {
+    level: NotificationLevel.Watching,
+    label: '关注',
+    description: '每条新回复都会通知你，并显示未读数量',
+    icon: 'eye'
+  },
+  {
+    level: NotificationLevel.Tracking,
+    label: '跟踪',
+    description: '有人提及或回复你时通知你，并显示未读数量',
+    icon: 'bell-dot'
+  },
+  {
+    level: NotificationLevel.Regular,
+    label: '普通',
+    description: '有人提及或回复你时通知你',
+    icon: 'bell'
+  },
+  {
+    level: NotificationLevel.Muted,
+    label: '免打扰',
+    description: '不接收任何通知，并从列表中隐藏',
+    icon: 'bell-slash'
+  }
+];
+
+interface NotificationLevelQuickPickItem extends vscode.QuickPickItem {
+  level: NotificationLevel;
+}
+
+/**
+ * 获取通知级别的名称和图标，未知级别按普通处理
+ */
+export function getNotificationLevelOption(level: NotificationLevel | undefined): NotificationLevelOption {
+  return NOTIFICATION_LEVEL_OPTIONS.find(option => option.level === level)
+    || NOTIFICATION_LEVEL_OPTIONS.find(option => option.level === NotificationLevel.Regular)!;
+}
+
+/**
+ * 选择话题或分类的通知级别
+ * @param title QuickPick 标题
+ * @param current 当前的通知级别
+ * @returns 选择的通知级别，用户取消时返回 undefined
+ */
+export async function pickNotificationLevel(title: string, current: NotificationLevel | undefined): Promise<NotificationLevel | undefined> {
+  const items: NotificationLevelQuickPickItem[] = NOTIFICATION_LEVEL_OPTIONS.map(option => ({
+    label: `$(${option.icon}) ${vscode.l10n.t(option.label)}`,
+    description: option.level === (current ?? NotificationLevel.Regular) ? vscode.l10n.t('当前') : undefined,
+    detail: vscode.l10n.t(option.description),
+    level: option.level
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title,
+    placeHolder: vscode.l10n.t('选择通知级别')
+  });
+  return selected?.level;
+}
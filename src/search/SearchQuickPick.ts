@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import type { SearchResult } from '../services/SearchService';
+import type { SiteSession } from '../sites/SiteSession';
+import { TopicReaderPanel } from '../webview/TopicReaderPanel';
+import { decodeEntities } from '../webview/PostRenderer';
+import { showError } from '../errors/ErrorHandler';
+
+interface SearchQuickPickItem extends vscode.QuickPickItem {
+  result?: SearchResult;
+  filter?: string;
+}
+
+// 输入为空时展示的高级过滤提示，说明在显示时翻译
+const SEARCH_FILTERS: { filter: string; description: string }[] = [
+  { filter: '@', description: '指定用户发布的帖子，例如 @username' },
+  { filter: '#', description: '指定分类，例如 #develop' },
+  { filter: 'in:bookmarks', description: '只搜索我的书签' },
+  { filter: 'in:posted', description: '只搜索我发过言的话题' },
+  { filter: 'order:latest', description: '按最新发布排序' },
+  { filter: 'order:likes', description: '按点赞数排序' },
+  { filter: 'status:open', description: '只搜索未关闭的话题' },
+  { filter: 'status:solved', description: '只搜索已解决的话题' },
+  { filter: 'after:', description: '指定日期之后，例如 after:2024-01-01' }
+];
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+/**
+ * 显示实时搜索的 QuickPick
+ */
+export function showSearchQuickPick(session: SiteSession): void {
+  const quickPick = vscode.window.createQuickPick<SearchQuickPickItem>();
+  const pinButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('pin'),
+    tooltip: vscode.l10n.t('固定到侧边栏')
+  };
+
+  quickPick.title = vscode.l10n.t('搜索 {0}', session.site.name);
+  quickPick.placeholder = vscode.l10n.t('输入关键词，支持 @用户 #分类 in:bookmarks order:latest status:open 等过滤');
+  quickPick.matchOnDescription = true;
+  quickPick.matchOnDetail = true;
+  quickPick.buttons = [pinButton];
+  quickPick.items = getFilterItems();
+
+  let debounceTimer: NodeJS.Timeout | undefined;
+  let searchSequence = 0;
+  let lastResult: { query: string; results: SearchResult[]; hasMore: boolean } | undefined;
+
+  const runSearch = async (query: string) => {
+    const sequence = ++searchSequence;
+    quickPick.busy = true;
+    try {
+      const page = await session.searchService.search(query);
+      // 只展示最后一次输入的结果
+      if (sequence !== searchSequence) {
+        return;
+      }
+      lastResult = { query, results: page.results, hasMore: page.hasMore };
+      quickPick.items = page.results.length > 0
+        ? page.results.map(result => toQuickPickItem(result))
+        : [{ label: vscode.l10n.t('没有找到相关内容'), alwaysShow: true }];
+    } catch (error: any) {
+      if (sequence === searchSequence) {
+        quickPick.items = [{ label: error.message, alwaysShow: true }];
+      }
+    } finally {
+      if (sequence === searchSequence) {
+        quickPick.busy = false;
+      }
+    }
+  };
+
+  quickPick.onDidChangeValue(value => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+
+    const query = value.trim();
+    if (!query) {
+      searchSequence++;
+      lastResult = undefined;
+      quickPick.busy = false;
+      quickPick.items = getFilterItems();
+      return;
+    }
+
+    debounceTimer = setTimeout(() => runSearch(query), SEARCH_DEBOUNCE_MS);
+  });
+
+  quickPick.onDidAccept(() => {
+    const selected = quickPick.selectedItems[0];
+    if (!selected) {
+      return;
+    }
+
+    // 选择过滤提示时，将其追加到输入框
+    if (selected.filter) {
+      quickPick.value = `${quickPick.value.trim()} ${selected.filter}`.trimStart();
+      return;
+    }
+
+    if (selected.result) {
+      const { post } = selected.result;
+      quickPick.hide();
+      TopicReaderPanel.show(session, post.topic_id, post.post_number).catch(error => {
+        showError(error, vscode.l10n.t('打开话题失败'));
+      });
+    }
+  });
+
+  quickPick.onDidTriggerButton(button => {
+    if (button !== pinButton) {
+      return;
+    }
+    if (!lastResult) {
+      vscode.window.showInformationMessage(vscode.l10n.t('请先输入搜索内容'));
+      return;
+    }
+    session.treeDataProvider.pinSearchResults(lastResult.query, lastResult.results, lastResult.hasMore);
+    quickPick.hide();
+  });
+
+  quickPick.onDidHide(() => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    quickPick.dispose();
+  });
+
+  quickPick.show();
+}
+
+function getFilterItems(): SearchQuickPickItem[] {
+  return SEARCH_FILTERS.map(({ filter, description }) => ({
+    label: filter,
+    description: vscode.l10n.t(description),
+    filter,
+    alwaysShow: true
+  }));
+}
+
+function toQuickPickItem(result: SearchResult): SearchQuickPickItem {
+  const { post, topic } = result;
+  return {
+    label: topic?.title || `#${post.topic_id}`,
+    description: `@${post.username} #${post.post_number}`,
+    detail: decodeEntities(post.blurb.replace(/<[^>]*>/g, '')),
+    result,
+    // 结果已由服务端匹配，不再按输入内容过滤
+    alwaysShow: true
+  };
+}
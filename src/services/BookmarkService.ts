@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { DiscourseApiClient } from '../api/DiscourseApiClient';
+import { wrapError } from '../api/ApiErrors';
+import { UserService } from './UserService';
+import type { Bookmark, BookmarkableType } from '../api/ApiTypes';
+
+export class BookmarkService {
+  constructor(
+    private apiClient: DiscourseApiClient,
+    private userService: UserService
+  ) { }
+
+  async getBookmarks(): Promise<Bookmark[]> {
+    try {
+      const user = await this.userService.getCurrentUser();
+      return await this.apiClient.getBookmarks(user.username);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('获取书签失败'));
+    }
+  }
+
+  async createBookmark(bookmarkableType: BookmarkableType, bookmarkableId: number, reminderAt?: Date): Promise<number> {
+    try {
+      return await this.apiClient.createBookmark(bookmarkableType, bookmarkableId, reminderAt);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('添加书签失败'));
+    }
+  }
+
+  async updateReminder(bookmarkId: number, reminderAt: Date | null): Promise<void> {
+    try {
+      await this.apiClient.updateBookmark(bookmarkId, reminderAt);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('修改书签提醒失败'));
+    }
+  }
+
+  async deleteBookmark(bookmarkId: number): Promise<void> {
+    try {
+      await this.apiClient.deleteBookmark(bookmarkId);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('删除书签失败'));
+    }
+  }
+}
@@ -1,16 +1,39 @@
+import * as vscode from 'vscode';
 import { DiscourseApiClient } from '../api/DiscourseApiClient';
-import type { Category } from '../api/ApiTypes';
+import { wrapError } from '../api/ApiErrors';
+import type { Category, NotificationLevel } from '../api/ApiTypes';
 
 export class CategoryService {
   constructor(private apiClient: DiscourseApiClient) { }
 
+  /**
+   * 获取全部分类，子分类紧跟在父分类之后，并带有 parent_category_id
+   */
   async getCategories(): Promise<Category[]> {
     try {
       const categories = await this.apiClient.getCategories();
+      const flattened: Category[] = [];
+      for (const category of categories) {
+        flattened.push(category);
+        for (const subcategory of category.subcategory_list || []) {
+          flattened.push({ ...subcategory, parent_category_id: subcategory.parent_category_id ?? category.id });
+        }
+      }
       // 过滤掉一些不需要显示的系统分类
-      return categories.filter(cat => !cat.slug.includes('uncategorized'));
+      return flattened.filter(cat => !cat.slug.includes('uncategorized'));
     } catch (error: any) {
-      throw new Error(`${error.message}`);
+      throw wrapError(error, vscode.l10n.t('获取分类失败'));
+    }
+  }
+
+  /**
+   * 设置分类的通知级别
+   */
+  async setNotificationLevel(categoryId: number, level: NotificationLevel): Promise<void> {
+    try {
+      await this.apiClient.setCategoryNotificationLevel(categoryId, level);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('设置通知级别失败'));
     }
   }
 }
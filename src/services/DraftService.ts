@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { DiscourseApiClient } from '../api/DiscourseApiClient';
+import { wrapError } from '../api/ApiErrors';
+import type { Draft, DraftData } from '../api/ApiTypes';
+
+export class DraftService {
+  constructor(private apiClient: DiscourseApiClient) { }
+
+  async getDrafts(): Promise<Draft[]> {
+    try {
+      return await this.apiClient.getDrafts();
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('获取草稿失败'));
+    }
+  }
+
+  /**
+   * 获取草稿内容，不存在时返回 undefined
+   */
+  async getDraft(draftKey: string): Promise<{ data?: DraftData; sequence: number }> {
+    try {
+      const result = await this.apiClient.getDraft(draftKey);
+      return {
+        data: result.draft ? parseDraftData(result.draft) : undefined,
+        sequence: result.draft_sequence || 0
+      };
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('获取草稿失败'));
+    }
+  }
+
+  async saveDraft(draftKey: string, data: DraftData, sequence: number): Promise<number> {
+    try {
+      return await this.apiClient.saveDraft(draftKey, data, sequence);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('保存草稿失败'));
+    }
+  }
+
+  async deleteDraft(draftKey: string, sequence: number): Promise<void> {
+    try {
+      await this.apiClient.deleteDraft(draftKey, sequence);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('删除草稿失败'));
+    }
+  }
+}
+
+/**
+ * 解析草稿内容，兼容字符串和对象两种格式
+ */
+export function parseDraftData(data: string | DraftData): DraftData {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data) as DraftData;
+  } catch {
+    return { reply: data, action: 'reply' };
+  }
+}
@@ -0,0 +1,544 @@
+import * as vscode from 'vscode';
+import { DiscourseApiClient } from '../api/DiscourseApiClient';
+import { wrapError } from '../api/ApiErrors';
+import { NotificationType } from '../api/ApiTypes';
+import type { Notification } from '../api/ApiTypes';
+import type { Site } from '../sites/Site';
+
+// 窗口失去焦点时，轮询间隔放大的倍数
+const UNFOCUSED_BACKOFF_FACTOR = 5;
+
+// 最小轮询间隔（秒），避免触发站点的频率限制
+const MIN_POLL_INTERVAL_SECONDS = 15;
+
+// 需要弹出提示的通知类型
+export const TOAST_NOTIFICATION_TYPES = new Set<NotificationType>([
+  NotificationType.Mentioned,
+  NotificationType.Replied,
+  NotificationType.PrivateMessage,
+  NotificationType.InvitedToPrivateMessage,
+  NotificationType.GroupMentioned
+]);
+
+export interface NotificationGroup {
+  id: string;
+  // 显示名称，显示时再翻译
+  label: string;
+  icon: string;
+  types: NotificationType[];
+}
+
+/**
+ * 侧边栏中通知的分组，按显示顺序排列
+ */
+export const NOTIFICATION_GROUPS: NotificationGroup[] = [
+  {
+    id: 'mentions',
+    label: '提及',
+    icon: 'mention',
+    types: [NotificationType.Mentioned, NotificationType.ChatMention]
+  },
+  {
+    id: 'group-mentions',
+    label: '群组提及',
+    icon: 'organization',
+    types: [NotificationType.GroupMentioned, NotificationType.ChatGroupMention]
+  },
+  {
+    id: 'replies',
+    label: '回复',
+    icon: 'reply',
+    types: [
+      NotificationType.Replied,
+      NotificationType.Posted,
+      NotificationType.Quoted,
+      NotificationType.ChatQuoted,
+      NotificationType.FollowingReplied,
+      NotificationType.QuestionAnswerUserCommented
+    ]
+  },
+  {
+    id: 'messages',
+    label: '私信',
+    icon: 'mail',
+    types: [NotificationType.PrivateMessage, NotificationType.GroupMessageSummary, NotificationType.ChatMessage]
+  },
+  {
+    id: 'likes',
+    label: '点赞',
+    icon: 'heart',
+    types: [NotificationType.Liked, NotificationType.LikedConsolidated, NotificationType.Reaction]
+  },
+  {
+    id: 'invitations',
+    label: '邀请',
+    icon: 'person-add',
+    types: [
+      NotificationType.InvitedToPrivateMessage,
+      NotificationType.InvitedToTopic,
+      NotificationType.InviteeAccepted,
+      NotificationType.ChatInvitation,
+      NotificationType.EventInvitation
+    ]
+  },
+  {
+    id: 'watching',
+    label: '关注',
+    icon: 'eye',
+    types: [
+      NotificationType.WatchingFirstPost,
+      NotificationType.WatchingCategoryOrTag,
+      NotificationType.FollowingCreatedTopic,
+      NotificationType.Following,
+      NotificationType.ChatWatchedThread
+    ]
+  },
+  {
+    id: 'badges',
+    label: '徽章',
+    icon: 'star-full',
+    types: [NotificationType.GrantedBadge]
+  }
+];
+
+// 不属于以上分组的通知
+export const OTHER_NOTIFICATION_GROUP: NotificationGroup = {
+  id: 'other',
+  label: '其他',
+  icon: 'bell',
+  types: []
+};
+
+/**
+ * 后台轮询通知，并维护未读数量
+ */
+export class NotificationService implements vscode.Disposable {
+  // 轮询得到的第一页通知
+  private notifications: Notification[] = [];
+
+  // 通过"加载更多"获取的更早的通知
+  private olderNotifications: Notification[] = [];
+  private totalCount: number = 0;
+  private loadingMore?: Promise<void>;
+
+  private loaded: boolean = false;
+  private running: boolean = false;
+  private pollTimer?: NodeJS.Timeout;
+  private lastPollAt: number = 0;
+  private polling?: Promise<void>;
+
+  // 每次停止轮询时递增，用于丢弃停止前发出的请求结果
+  private generation: number = 0;
+
+  // 已在本地标记为已读的通知 ID，服务端状态同步前用于过滤
+  private readNotificationIds: Set<number> = new Set();
+
+  // 已经提示过的通知 ID，避免重复弹出
+  private seenNotificationIds: Set<number> = new Set();
+
+  // 切换账号时保存各账号的已读和已提示状态，切换回来后不会重复提示
+  private accountId?: string;
+  private accountStates: Map<string, { readIds: Set<number>; seenIds: Set<number> }> = new Map();
+
+  private disposables: vscode.Disposable[] = [];
+
+  private _onDidChangeNotifications = new vscode.EventEmitter<void>();
+  readonly onDidChangeNotifications: vscode.Event<void> = this._onDidChangeNotifications.event;
+
+  // 轮询到新的未读通知时触发（不包含首次加载的通知）
+  private _onDidReceiveNotifications = new vscode.EventEmitter<Notification[]>();
+  readonly onDidReceiveNotifications: vscode.Event<Notification[]> = this._onDidReceiveNotifications.event;
+
+  constructor(private apiClient: DiscourseApiClient) {
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState(state => {
+        // 窗口重新获得焦点时，如果已超过正常间隔则立即轮询
+        if (state.focused && this.running && Date.now() - this.lastPollAt >= this.getPollInterval(true)) {
+          this.poll();
+        } else {
+          this.scheduleNextPoll();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('linuxdo.notifications.pollInterval')) {
+          this.scheduleNextPoll();
+        }
+      })
+    );
+  }
+
+  /**
+   * 开始轮询
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    console.log('[NotificationService] 开始轮询通知');
+    this.running = true;
+    this.poll();
+  }
+
+  /**
+   * 停止轮询并清空通知，例如退出登录后
+   */
+  stop(): void {
+    console.log('[NotificationService] 停止轮询通知');
+    this.running = false;
+    this.loaded = false;
+    this.generation++;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    this.notifications = [];
+    this.olderNotifications = [];
+    this.totalCount = 0;
+    this.readNotificationIds = new Set();
+    this.seenNotificationIds = new Set();
+    this._onDidChangeNotifications.fire();
+  }
+
+  /**
+   * 切换账号，停止轮询并恢复该账号的通知状态，需要再调用 start 开始轮询
+   */
+  setAccount(accountId: string): void {
+    if (accountId === this.accountId) {
+      return;
+    }
+    if (this.accountId) {
+      this.accountStates.set(this.accountId, {
+        readIds: this.readNotificationIds,
+        seenIds: this.seenNotificationIds
+      });
+    }
+    this.stop();
+    this.accountId = accountId;
+
+    const state = this.accountStates.get(accountId);
+    if (state) {
+      this.readNotificationIds = state.readIds;
+      this.seenNotificationIds = state.seenIds;
+    }
+  }
+
+  /**
+   * 获取未读通知，尚未加载时先加载一次
+   */
+  async getUnreadNotifications(): Promise<Notification[]> {
+    if (!this.loaded) {
+      await this.poll();
+    }
+    return this.notifications.filter(n => this.isUnread(n));
+  }
+
+  /**
+   * 获取已加载的全部通知（包括已读），按时间倒序
+   */
+  async getAllNotifications(): Promise<Notification[]> {
+    if (!this.loaded) {
+      await this.poll();
+    }
+    const ids = new Set(this.notifications.map(n => n.id));
+    return [...this.notifications, ...this.olderNotifications.filter(n => !ids.has(n.id))];
+  }
+
+  getUnreadCount(): number {
+    return this.notifications.filter(n => this.isUnread(n)).length;
+  }
+
+  isUnread(notification: Notification): boolean {
+    return !notification.read && !this.readNotificationIds.has(notification.id);
+  }
+
+  /**
+   * 服务端是否还有更早的通知
+   */
+  hasMore(): boolean {
+    return this.notifications.length + this.olderNotifications.length < this.totalCount;
+  }
+
+  /**
+   * 加载下一页更早的通知
+   */
+  loadMore(): Promise<void> {
+    if (!this.loadingMore) {
+      this.loadingMore = this.fetchOlderNotifications().finally(() => {
+        this.loadingMore = undefined;
+      });
+    }
+    return this.loadingMore;
+  }
+
+  /**
+   * 立即拉取一次通知
+   */
+  poll(): Promise<void> {
+    // 合并同时发起的轮询
+    if (!this.polling) {
+      this.polling = this.fetchNotifications().finally(() => {
+        this.polling = undefined;
+        this.scheduleNextPoll();
+      });
+    }
+    return this.polling;
+  }
+
+  /**
+   * 标记通知为已读
+   */
+  async markAsRead(notificationId: number): Promise<void> {
+    const success = await this.apiClient.markNotificationAsRead(notificationId);
+    if (success) {
+      this.readNotificationIds.add(notificationId);
+      console.log(`[NotificationService] 通知 ${notificationId} 已标记为已读`);
+      this._onDidChangeNotifications.fire();
+    }
+  }
+
+  /**
+   * 将全部通知标记为已读
+   */
+  async markAllAsRead(): Promise<void> {
+    try {
+      await this.apiClient.markAllNotificationsAsRead();
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('标记全部通知已读失败'));
+    }
+
+    for (const notification of [...this.notifications, ...this.olderNotifications]) {
+      if (!notification.read) {
+        this.readNotificationIds.add(notification.id);
+      }
+    }
+    console.log('[NotificationService] 全部通知已标记为已读');
+    this._onDidChangeNotifications.fire();
+  }
+
+  dispose(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangeNotifications.dispose();
+    this._onDidReceiveNotifications.dispose();
+  }
+
+  private async fetchNotifications(): Promise<void> {
+    this.lastPollAt = Date.now();
+    const generation = this.generation;
+    try {
+      const response = await this.apiClient.getNotifications();
+      if (generation !== this.generation) {
+        return;
+      }
+      const notifications = response.notifications;
+      const previousState = this.getStateKey();
+
+      // 服务端已是已读状态的通知，不再需要本地记录
+      for (const notification of notifications) {
+        if (notification.read) {
+          this.readNotificationIds.delete(notification.id);
+        }
+      }
+
+      const newNotifications = notifications.filter(n => !n.read && !this.seenNotificationIds.has(n.id));
+      const isFirstLoad = !this.loaded;
+      notifications.forEach(n => this.seenNotificationIds.add(n.id));
+
+      this.notifications = notifications;
+      this.totalCount = response.total_rows_notifications ?? notifications.length;
+      this.loaded = true;
+
+      console.log(`[NotificationService] 获取到 ${notifications.length} 条通知，未读 ${this.getUnreadCount()} 条`);
+
+      if (isFirstLoad || this.getStateKey() !== previousState) {
+        this._onDidChangeNotifications.fire();
+      }
+      if (!isFirstLoad && newNotifications.length > 0) {
+        this._onDidReceiveNotifications.fire(newNotifications);
+      }
+    } catch (error: any) {
+      console.error('[NotificationService] 获取通知失败:', error.message);
+    }
+  }
+
+  private async fetchOlderNotifications(): Promise<void> {
+    const generation = this.generation;
+    const offset = this.notifications.length + this.olderNotifications.length;
+    let response;
+    try {
+      response = await this.apiClient.getNotifications(offset);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('加载更多通知失败'));
+    }
+    if (generation !== this.generation) {
+      return;
+    }
+
+    const loadedIds = new Set([...this.notifications, ...this.olderNotifications].map(n => n.id));
+    this.olderNotifications.push(...response.notifications.filter(n => !loadedIds.has(n.id)));
+    // 没有返回任何通知时以已加载数量为准，避免反复请求
+    this.totalCount = response.notifications.length > 0
+      ? response.total_rows_notifications ?? this.totalCount
+      : offset;
+
+    console.log(`[NotificationService] 加载了更早的 ${response.notifications.length} 条通知`);
+    this._onDidChangeNotifications.fire();
+  }
+
+  private scheduleNextPoll(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    if (!this.running || this.polling) {
+      return;
+    }
+    this.pollTimer = setTimeout(() => this.poll(), this.getPollInterval(vscode.window.state.focused));
+  }
+
+  private getPollInterval(focused: boolean): number {
+    const seconds = vscode.workspace.getConfiguration('linuxdo').get<number>('notifications.pollInterval', 60);
+    const interval = Math.max(seconds, MIN_POLL_INTERVAL_SECONDS) * 1000;
+    return focused ? interval : interval * UNFOCUSED_BACKOFF_FACTOR;
+  }
+
+  // 通知列表及其已读状态的摘要，用于判断是否需要刷新视图
+  private getStateKey(): string {
+    return this.notifications
+      .map(n => `${n.id}:${this.isUnread(n) ? 1 : 0}`)
+      .join(',');
+  }
+}
+
+/**
+ * 获取通知所属的分组
+ */
+export function getNotificationGroup(notificationType: NotificationType): NotificationGroup {
+  return NOTIFICATION_GROUPS.find(group => group.types.includes(notificationType)) || OTHER_NOTIFICATION_GROUP;
+}
+
+/**
+ * 将通知转换为可读文本
+ */
+export function getNotificationText(notification: Notification): string {
+  const data = notification.data;
+  const username = data.display_username || data.original_username || data.username || vscode.l10n.t('有人');
+  const topicTitle = data.topic_title || data.title || '';
+  const groupName = data.group_name || '';
+  const count = data.count || 0;
+
+  switch (notification.notification_type) {
+    case NotificationType.Mentioned:
+      return vscode.l10n.t('{0} 在「{1}」中提到了你', username, topicTitle);
+    case NotificationType.Replied:
+      return vscode.l10n.t('{0} 回复了你在「{1}」中的帖子', username, topicTitle);
+    case NotificationType.Quoted:
+      return vscode.l10n.t('{0} 在「{1}」中引用了你的帖子', username, topicTitle);
+    case NotificationType.Edited:
+      return vscode.l10n.t('{0} 编辑了你在「{1}」中的帖子', username, topicTitle);
+    case NotificationType.Liked:
+      return data.username2
+        ? vscode.l10n.t('{0} 和 {1} 赞了你在「{2}」中的帖子', username, data.username2, topicTitle)
+        : vscode.l10n.t('{0} 赞了你在「{1}」中的帖子', username, topicTitle);
+    case NotificationType.PrivateMessage:
+      return vscode.l10n.t('{0} 给你发送了私信「{1}」', username, topicTitle);
+    case NotificationType.InvitedToPrivateMessage:
+      return vscode.l10n.t('{0} 邀请你参与私信「{1}」', username, topicTitle);
+    case NotificationType.InviteeAccepted:
+      return vscode.l10n.t('{0} 接受了你的邀请', username);
+    case NotificationType.Posted:
+      return vscode.l10n.t('{0} 在「{1}」中发布了回复', username, topicTitle);
+    case NotificationType.MovedPost:
+      return vscode.l10n.t('{0} 移动了你在「{1}」中的帖子', username, topicTitle);
+    case NotificationType.Linked:
+      return vscode.l10n.t('{0} 在「{1}」中链接了你的帖子', username, topicTitle);
+    case NotificationType.GrantedBadge:
+      return vscode.l10n.t('你获得了徽章「{0}」', data.badge_name || '');
+    case NotificationType.InvitedToTopic:
+      return vscode.l10n.t('{0} 邀请你参与话题「{1}」', username, topicTitle);
+    case NotificationType.Custom:
+      return data.message ? `${username}: ${data.message}` : vscode.l10n.t('来自 {0} 的通知: {1}', username, topicTitle);
+    case NotificationType.GroupMentioned:
+      return vscode.l10n.t('{0} 在「{1}」中提到了 @{2}', username, topicTitle, groupName);
+    case NotificationType.GroupMessageSummary:
+      return vscode.l10n.t('群组 {0} 的收件箱中有 {1} 条私信', groupName, data.inbox_count || 0);
+    case NotificationType.WatchingFirstPost:
+      return vscode.l10n.t('{0} 发布了新话题「{1}」', username, topicTitle);
+    case NotificationType.TopicReminder:
+      return vscode.l10n.t('话题提醒：「{0}」', topicTitle);
+    case NotificationType.LikedConsolidated:
+      return vscode.l10n.t('{0} 赞了你的 {1} 个帖子', username, count);
+    case NotificationType.PostApproved:
+      return vscode.l10n.t('你在「{0}」中的帖子已通过审核', topicTitle);
+    case NotificationType.CodeReviewCommitApproved:
+      return vscode.l10n.t('你的提交已通过审核: {0}', topicTitle);
+    case NotificationType.MembershipRequestAccepted:
+      return vscode.l10n.t('你加入群组 {0} 的申请已通过', groupName);
+    case NotificationType.MembershipRequestConsolidated:
+      return vscode.l10n.t('群组 {0} 有 {1} 个待处理的加入申请', groupName, count);
+    case NotificationType.BookmarkReminder:
+      return vscode.l10n.t('书签提醒：「{0}」', topicTitle);
+    case NotificationType.Reaction:
+      return vscode.l10n.t('{0} 回应了你在「{1}」中的帖子', username, topicTitle);
+    case NotificationType.VotesReleased:
+      return vscode.l10n.t('「{0}」的投票已返还', topicTitle);
+    case NotificationType.EventReminder:
+      return vscode.l10n.t('活动提醒：「{0}」', topicTitle);
+    case NotificationType.EventInvitation:
+      return vscode.l10n.t('{0} 邀请你参加活动「{1}」', username, topicTitle);
+    case NotificationType.ChatMention:
+      return vscode.l10n.t('{0} 在聊天中提到了你', username);
+    case NotificationType.ChatMessage:
+      return vscode.l10n.t('{0} 给你发送了聊天消息', username);
+    case NotificationType.ChatInvitation:
+      return vscode.l10n.t('{0} 邀请你加入聊天频道', username);
+    case NotificationType.ChatGroupMention:
+      return vscode.l10n.t('{0} 在聊天中提到了 @{1}', username, groupName);
+    case NotificationType.ChatQuoted:
+      return vscode.l10n.t('{0} 在聊天中引用了你的消息', username);
+    case NotificationType.ChatWatchedThread:
+      return vscode.l10n.t('{0} 在你关注的聊天话题中发送了消息', username);
+    case NotificationType.AssignedTopic:
+      return vscode.l10n.t('{0} 将「{1}」指派给了你', username, topicTitle);
+    case NotificationType.QuestionAnswerUserCommented:
+      return vscode.l10n.t('{0} 评论了「{1}」中的回答', username, topicTitle);
+    case NotificationType.WatchingCategoryOrTag:
+      return vscode.l10n.t('{0} 在你关注的分类或标签中发布了「{1}」', username, topicTitle);
+    case NotificationType.NewFeatures:
+      return vscode.l10n.t('论坛有新功能可用');
+    case NotificationType.AdminProblems:
+      return vscode.l10n.t('站点存在需要管理员处理的问题');
+    case NotificationType.LinkedConsolidated:
+      return vscode.l10n.t('{0} 链接了你的 {1} 个帖子', username, count);
+    case NotificationType.Following:
+      return vscode.l10n.t('{0} 关注了你', username);
+    case NotificationType.FollowingCreatedTopic:
+      return vscode.l10n.t('{0} 发布了新话题「{1}」', username, topicTitle);
+    case NotificationType.FollowingReplied:
+      return vscode.l10n.t('{0} 回复了「{1}」', username, topicTitle);
+    case NotificationType.CirclesActivity:
+      return vscode.l10n.t('圈子动态: {0}', topicTitle);
+    default:
+      return vscode.l10n.t('来自 {0} 的通知: {1}', username, topicTitle);
+  }
+}
+
+/**
+ * 获取通知对应的网页地址
+ */
+export function getNotificationUrl(notification: Notification, site: Site): string {
+  const data = notification.data;
+
+  if (notification.topic_id) {
+    return site.topicUrl(notification.slug, notification.topic_id, notification.post_number ?? undefined);
+  }
+  if (notification.notification_type === NotificationType.GrantedBadge && data.badge_id) {
+    return site.url(`/badges/${data.badge_id}/${data.badge_slug || ''}`);
+  }
+  if (notification.notification_type === NotificationType.Following && data.display_username) {
+    return site.userUrl(data.display_username);
+  }
+  return site.url('/my/notifications');
+}
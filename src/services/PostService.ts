@@ -1,5 +1,11 @@
+import * as vscode from 'vscode';
 import { DiscourseApiClient } from '../api/DiscourseApiClient';
-import type { Post } from '../api/ApiTypes';
+import { wrapError } from '../api/ApiErrors';
+import type { Post, TopicDetail } from '../api/ApiTypes';
+
+// 每批加载回复数量的范围
+const MIN_BATCH_SIZE = 5;
+const MAX_BATCH_SIZE = 100;
 
 export class PostService {
   constructor(private apiClient: DiscourseApiClient) {}
@@ -8,7 +14,63 @@ export class PostService {
     try {
       return await this.apiClient.getTopicPosts(topicId);
     } catch (error: any) {
-      throw new Error(`获取话题回复失败: ${error.message}`);
+      throw wrapError(error, vscode.l10n.t('获取话题回复失败'));
     }
   }
+
+  async getTopic(topicId: number, token?: vscode.CancellationToken): Promise<TopicDetail> {
+    try {
+      return await this.apiClient.getTopic(topicId, token);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('获取话题详情失败'));
+    }
+  }
+
+  async loadMoreTopicPosts(topicId: number, postIds: number[], token?: vscode.CancellationToken): Promise<Post[]> {
+    try {
+      return await this.apiClient.loadMoreTopicPosts(topicId, postIds, token);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('加载更多回复失败'));
+    }
+  }
+
+  async getPost(postId: number): Promise<Post> {
+    try {
+      return await this.apiClient.getPost(postId);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('获取帖子失败'));
+    }
+  }
+
+  async createReply(topicId: number, content: string, replyToPostNumber?: number, draftKey?: string): Promise<Post> {
+    try {
+      return await this.apiClient.createReply(topicId, content, replyToPostNumber, draftKey);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('回复失败'));
+    }
+  }
+
+  async createTopic(title: string, content: string, categoryId: number, tags: string[] = [], draftKey?: string): Promise<Post> {
+    try {
+      return await this.apiClient.createTopic(title, content, categoryId, tags, draftKey);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('发布话题失败'));
+    }
+  }
+
+  async createPrivateMessage(title: string, content: string, recipients: string[], draftKey?: string): Promise<Post> {
+    try {
+      return await this.apiClient.createPrivateMessage(title, content, recipients, draftKey);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('发送私信失败'));
+    }
+  }
+}
+
+/**
+ * 每批加载的回复数量，来自用户设置
+ */
+export function getPostBatchSize(): number {
+  const batchSize = vscode.workspace.getConfiguration('linuxdo').get<number>('posts.batchSize', 20);
+  return Math.min(Math.max(batchSize, MIN_BATCH_SIZE), MAX_BATCH_SIZE);
 }
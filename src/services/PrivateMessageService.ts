@@ -0,0 +1,21 @@
+import * as vscode from 'vscode';
+import { DiscourseApiClient } from '../api/DiscourseApiClient';
+import { wrapError } from '../api/ApiErrors';
+import { UserService } from './UserService';
+import type { PrivateMessageBox, Topic } from '../api/ApiTypes';
+
+export class PrivateMessageService {
+  constructor(
+    private apiClient: DiscourseApiClient,
+    private userService: UserService
+  ) { }
+
+  async getMessages(box: PrivateMessageBox, page: number = 0): Promise<Topic[]> {
+    try {
+      const user = await this.userService.getCurrentUser();
+      return await this.apiClient.getPrivateMessages(user.username, box, page);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('获取私信失败'));
+    }
+  }
+}
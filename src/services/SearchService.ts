@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { DiscourseApiClient } from '../api/DiscourseApiClient';
+import { wrapError } from '../api/ApiErrors';
+import type { SearchPost, Topic } from '../api/ApiTypes';
+
+export interface SearchResult {
+  post: SearchPost;
+  topic?: Topic;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  hasMore: boolean;
+}
+
+export class SearchService {
+  constructor(private apiClient: DiscourseApiClient) { }
+
+  async search(query: string, page: number = 1): Promise<SearchPage> {
+    try {
+      const data = await this.apiClient.search(query, page);
+      const topics = new Map((data.topics || []).map(topic => [topic.id, topic]));
+      const results = (data.posts || []).map(post => ({
+        post,
+        topic: topics.get(post.topic_id)
+      }));
+
+      console.log(`[SearchService] "${query}" 第 ${page} 页共 ${results.length} 条结果`);
+
+      return {
+        results,
+        hasMore: !!data.grouped_search_result?.more_full_page_results
+      };
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('搜索失败'));
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+import { DiscourseApiClient } from '../api/DiscourseApiClient';
+import { wrapError } from '../api/ApiErrors';
+import type { Tag } from '../api/ApiTypes';
+
+export class TagService {
+  constructor(private apiClient: DiscourseApiClient) { }
+
+  async getTags(): Promise<Tag[]> {
+    try {
+      const tags = await this.apiClient.getTags();
+      // 按使用次数排序
+      return tags.sort((a, b) => b.count - a.count);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('获取标签失败'));
+    }
+  }
+}
+
+/**
+ * 获取标签名称，兼容新旧版本接口
+ */
+export function getTagName(tag: Tag): string {
+  return tag.name || tag.text || String(tag.id);
+}
@@ -1,27 +1,121 @@
+import * as vscode from 'vscode';
 import { DiscourseApiClient } from '../api/DiscourseApiClient';
-import type { Topic } from '../api/ApiTypes';
+import { wrapError } from '../api/ApiErrors';
+import type { NotificationLevel, Topic, TopicListFilter, TopicListMode, TopPeriod, TopicListResponse } from '../api/ApiTypes';
+
+// 每页话题数量的范围，避免单次请求过大
+const MIN_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 100;
+
+// 排序方式和统计周期的显示名称，显示时再翻译
+export const TOPIC_LIST_MODE_LABELS: Record<TopicListMode, string> = {
+  latest: '最新',
+  hot: '热门',
+  new: '新话题',
+  unread: '未读',
+  posted: '我参与的',
+  top: '排行榜'
+};
+
+export const TOP_PERIOD_LABELS: Record<TopPeriod, string> = {
+  daily: '今日',
+  weekly: '本周',
+  monthly: '本月',
+  quarterly: '本季度',
+  yearly: '本年',
+  all: '全部时间'
+};
+
+export const DEFAULT_TOPIC_LIST_FILTER: TopicListFilter = { mode: 'latest' };
+
+export interface TopicPage {
+  topics: Topic[];
+  // 下一页的地址，没有更多时为空
+  moreTopicsUrl?: string;
+}
 
 export class TopicService {
   constructor(private apiClient: DiscourseApiClient) { }
 
-  async getLatestTopics(page: number = 0, limit: number = 30): Promise<Topic[]> {
+  /**
+   * 按排序方式获取第一页话题，categoryId 为空时获取全部分类
+   */
+  async getTopics(filter: TopicListFilter, categoryId?: number, token?: vscode.CancellationToken): Promise<TopicPage> {
+    try {
+      const data = await this.apiClient.getTopicList(filter, categoryId, getTopicPageSize(), token);
+      console.log(`[TopicService] ${getTopicListFilterLabel(filter)}: 获取到 ${data.topic_list.topics.length} 个话题`);
+      return toTopicPage(data);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('获取{0}话题失败', getTopicListFilterLabel(filter)));
+    }
+  }
+
+  /**
+   * 获取标签下的第一页话题
+   */
+  async getTagTopics(tagName: string, token?: vscode.CancellationToken): Promise<TopicPage> {
     try {
-      const topics = await this.apiClient.getLatestTopics(page);
-      // 限制返回的话题数量
-      return topics.slice(0, limit);
+      const data = await this.apiClient.getTagTopics(tagName, getTopicPageSize(), token);
+      console.log(`[TopicService] 标签 ${tagName}: 获取到 ${data.topic_list.topics.length} 个话题`);
+      return toTopicPage(data);
     } catch (error: any) {
-      throw new Error(`获取最新话题失败: ${error.message}`);
+      throw wrapError(error, vscode.l10n.t('获取标签话题失败'));
     }
   }
 
-  async getCategoryTopics(categoryId: number, page: number = 0, limit: number = 30): Promise<Topic[]> {
+  /**
+   * 按上一页返回的地址获取下一页话题
+   */
+  async getMoreTopics(moreTopicsUrl: string): Promise<TopicPage> {
     try {
-      const topics = await this.apiClient.getCategoryTopics(categoryId, page);
-      // 限制返回的话题数量
-      console.log(`[TopicService] 获取到 ${topics.length} 个话题，限制为 ${limit} 个`);
-      return topics.slice(0, limit);
+      return toTopicPage(await this.apiClient.getMoreTopics(moreTopicsUrl));
     } catch (error: any) {
-      throw new Error(`获取分类话题失败: ${error.message}`);
+      throw wrapError(error, vscode.l10n.t('加载更多话题失败'));
     }
   }
+
+  /**
+   * 上报阅读时间，站点据此标记已读并统计阅读时长
+   */
+  async recordTimings(topicId: number, timings: Record<number, number>, topicTime: number): Promise<void> {
+    try {
+      await this.apiClient.postTopicTimings(topicId, timings, topicTime);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('上报阅读时间失败'));
+    }
+  }
+
+  /**
+   * 设置话题的通知级别
+   */
+  async setNotificationLevel(topicId: number, level: NotificationLevel): Promise<void> {
+    try {
+      await this.apiClient.setTopicNotificationLevel(topicId, level);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('设置通知级别失败'));
+    }
+  }
+}
+
+function toTopicPage(data: TopicListResponse): TopicPage {
+  return {
+    topics: data.topic_list.topics,
+    moreTopicsUrl: data.topic_list.more_topics_url
+  };
+}
+
+/**
+ * 每页话题数量，来自用户设置
+ */
+function getTopicPageSize(): number {
+  const pageSize = vscode.workspace.getConfiguration('linuxdo').get<number>('topics.pageSize', 30);
+  return Math.min(Math.max(pageSize, MIN_PAGE_SIZE), MAX_PAGE_SIZE);
+}
+
+/**
+ * 排序方式的显示名称，例如 "排行榜 · 本周"
+ */
+export function getTopicListFilterLabel(filter: TopicListFilter): string {
+  const label = vscode.l10n.t(TOPIC_LIST_MODE_LABELS[filter.mode]);
+  return filter.mode === 'top' ? `${label} · ${vscode.l10n.t(TOP_PERIOD_LABELS[filter.period || 'weekly'])}` : label;
 }
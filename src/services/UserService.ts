@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { DiscourseApiClient } from '../api/DiscourseApiClient';
+import { wrapError } from '../api/ApiErrors';
+import type { BasicUser, CurrentUser } from '../api/ApiTypes';
+
+export class UserService {
+  // 当前用户在登录状态变化前不会改变，只请求一次
+  private currentUser?: Promise<CurrentUser>;
+
+  constructor(private apiClient: DiscourseApiClient) { }
+
+  async getCurrentUser(): Promise<CurrentUser> {
+    if (!this.currentUser) {
+      this.currentUser = this.apiClient.getCurrentUser();
+      // 请求失败时下次重新获取
+      this.currentUser.catch(() => {
+        this.currentUser = undefined;
+      });
+    }
+
+    try {
+      return await this.currentUser;
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('获取当前用户失败'));
+    }
+  }
+
+  async searchUsers(term: string): Promise<BasicUser[]> {
+    try {
+      return await this.apiClient.searchUsers(term);
+    } catch (error: any) {
+      throw wrapError(error, vscode.l10n.t('搜索用户失败'));
+    }
+  }
+
+  /**
+   * 登录状态变化后清除当前用户
+   */
+  reset(): void {
+    this.currentUser = undefined;
+  }
+}
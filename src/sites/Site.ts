@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+
+/**
+ * 设置 linuxdo.sites 中的一项
+ */
+export interface SiteConfig {
+  name?: string;
+  url: string;
+}
+
+// 没有配置站点时使用的站点
+export const DEFAULT_SITE: SiteConfig = { name: 'Linux.do', url: 'https://linux.do' };
+
+/**
+ * 一个 Discourse 站点，网页地址和接口地址都通过它生成
+ */
+export class Site {
+  // 站点标识，用于区分各站点的凭证、缓存和文档 URI
+  readonly id: string;
+  readonly name: string;
+  // 不带末尾斜杠的站点地址，例如 https://linux.do 或 https://example.com/forum
+  readonly baseUrl: string;
+  // 子目录安装时的路径前缀，例如 /forum
+  private readonly basePath: string;
+
+  constructor(config: SiteConfig) {
+    const url = new URL(config.url);
+    this.basePath = url.pathname.replace(/\/+$/, '');
+    this.baseUrl = `${url.origin}${this.basePath}`;
+    this.id = `${url.host}${this.basePath.replace(/\//g, '-')}`.toLowerCase();
+    this.name = config.name?.trim() || url.host;
+  }
+
+  /**
+   * 是否为默认站点，默认站点沿用支持多站点之前的存储键
+   */
+  get isDefault(): boolean {
+    return this.baseUrl === DEFAULT_SITE.url;
+  }
+
+  /**
+   * 站点内的地址
+   * @param path 以 / 开头的路径，例如 /latest.json
+   */
+  url(path: string = ''): string {
+    return `${this.baseUrl}${path}`;
+  }
+
+  /**
+   * 话题的网页地址
+   */
+  topicUrl(slug: string | null | undefined, topicId: number, postNumber?: number): string {
+    const postPath = postNumber ? `/${postNumber}` : '';
+    return this.url(`/t/${slug || 'topic'}/${topicId}${postPath}`);
+  }
+
+  /**
+   * 用户主页地址
+   */
+  userUrl(username: string): string {
+    return this.url(`/u/${encodeURIComponent(username)}`);
+  }
+
+  /**
+   * 将站点返回的完整地址或带子目录的路径转换为接口路径
+   */
+  toPath(url: string): string {
+    let path = url.startsWith(this.baseUrl) ? url.slice(this.baseUrl.length) : url;
+    if (this.basePath && path.startsWith(`${this.basePath}/`)) {
+      path = path.slice(this.basePath.length);
+    }
+    return path;
+  }
+
+  /**
+   * 存储键，默认站点直接使用原来的键
+   */
+  storageKey(key: string): string {
+    return this.isDefault ? key : `${key}@${this.id}`;
+  }
+}
+
+/**
+ * 读取设置中的站点列表，忽略无效和重复的地址
+ */
+export function loadSites(): Site[] {
+  const configs = vscode.workspace.getConfiguration('linuxdo').get<SiteConfig[]>('sites', [DEFAULT_SITE]);
+  const sites: Site[] = [];
+
+  for (const config of Array.isArray(configs) ? configs : []) {
+    if (!config || typeof config.url !== 'string' || !/^https?:\/\//i.test(config.url)) {
+      console.error('[Site] 忽略无效的站点配置:', config);
+      continue;
+    }
+    try {
+      const site = new Site(config);
+      if (!sites.some(existing => existing.id === site.id)) {
+        sites.push(site);
+      }
+    } catch (error: any) {
+      console.error('[Site] 忽略无效的站点地址:', config.url, error.message);
+    }
+  }
+
+  return sites.length > 0 ? sites : [new Site(DEFAULT_SITE)];
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { loadSites } from './Site';
+import { SiteSession } from './SiteSession';
+import type { TreeItemNode } from '../treeView/TreeItemNode';
+
+/**
+ * 命令的目标站点：树节点、站点 ID，或者不指定
+ */
+export type SiteTarget = TreeItemNode | string | undefined;
+
+/**
+ * 管理设置中配置的所有站点
+ */
+export class SiteManager implements vscode.UriHandler, vscode.Disposable {
+  private constructor(readonly sessions: SiteSession[]) { }
+
+  static async create(context: vscode.ExtensionContext): Promise<SiteManager> {
+    const sessions: SiteSession[] = [];
+    for (const site of loadSites()) {
+      sessions.push(await SiteSession.create(context, site));
+    }
+    console.log(`[SiteManager] 已加载 ${sessions.length} 个站点: ${sessions.map(session => session.site.id).join(', ')}`);
+    return new SiteManager(sessions);
+  }
+
+  /**
+   * 是否配置了多个站点，多个站点时在侧边栏中按站点分组
+   */
+  get isMultiSite(): boolean {
+    return this.sessions.length > 1;
+  }
+
+  /**
+   * 根据站点 ID 获取站点
+   * 空 ID 来自支持多站点之前生成的文档 URI，对应默认站点
+   */
+  get(siteId: string | undefined): SiteSession | undefined {
+    if (!siteId) {
+      return this.sessions.find(session => session.site.isDefault) || this.sessions[0];
+    }
+    return this.sessions.find(session => session.site.id === siteId);
+  }
+
+  /**
+   * 获取命令的目标站点，没有指定时只有一个站点则直接使用，否则让用户选择
+   */
+  async resolve(target: SiteTarget, placeHolder: string = vscode.l10n.t('选择站点')): Promise<SiteSession | undefined> {
+    if (typeof target === 'string') {
+      return this.get(target);
+    }
+    if (target?.data.siteId) {
+      return this.get(target.data.siteId);
+    }
+    if (!this.isMultiSite) {
+      return this.sessions[0];
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      this.sessions.map(session => ({
+        label: session.site.name,
+        description: session.site.baseUrl,
+        detail: session.getDescription(),
+        session
+      })),
+      { placeHolder }
+    );
+    return selected?.session;
+  }
+
+  /**
+   * 把授权回调转交给发起授权的站点
+   */
+  handleUri(uri: vscode.Uri): void {
+    const siteId = new URLSearchParams(uri.query).get('site') || undefined;
+    const session = this.get(siteId);
+    if (!session) {
+      vscode.window.showErrorMessage(vscode.l10n.t('授权失败：找不到站点 {0}', siteId || ''));
+      return;
+    }
+    session.authManager.handleUri(uri);
+  }
+
+  dispose(): void {
+    this.sessions.forEach(session => session.dispose());
+  }
+}
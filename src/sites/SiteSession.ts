@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import { Site } from './Site';
+import { DiscourseApiClient } from '../api/DiscourseApiClient';
+import { ResponseCache } from '../api/ResponseCache';
+import { AuthenticationManager } from '../auth/AuthenticationManager';
+import { CookieStorage, CookieChange } from '../auth/CookieStorage';
+import { SessionMonitor } from '../auth/SessionMonitor';
+import { CategoryService } from '../services/CategoryService';
+import { TopicService } from '../services/TopicService';
+import { PostService } from '../services/PostService';
+import { SearchService } from '../services/SearchService';
+import { DraftService } from '../services/DraftService';
+import { TagService } from '../services/TagService';
+import { UserService } from '../services/UserService';
+import { PrivateMessageService } from '../services/PrivateMessageService';
+import { BookmarkService } from '../services/BookmarkService';
+import { NotificationService } from '../services/NotificationService';
+import { LinuxDoTreeDataProvider } from '../treeView/LinuxDoTreeDataProvider';
+
+// 自动刷新的最短间隔（分钟）
+const MIN_AUTO_REFRESH_INTERVAL = 1;
+
+/**
+ * 一个站点的凭证、缓存、接口客户端、服务和侧边栏内容
+ * 每个站点单独登录，互不影响
+ */
+export class SiteSession implements vscode.Disposable {
+  readonly responseCache: ResponseCache;
+  readonly apiClient: DiscourseApiClient;
+  readonly authManager: AuthenticationManager;
+
+  readonly categoryService: CategoryService;
+  readonly topicService: TopicService;
+  readonly postService: PostService;
+  readonly searchService: SearchService;
+  readonly draftService: DraftService;
+  readonly tagService: TagService;
+  readonly notificationService: NotificationService;
+  readonly userService: UserService;
+  readonly privateMessageService: PrivateMessageService;
+  readonly bookmarkService: BookmarkService;
+
+  readonly sessionMonitor: SessionMonitor;
+  readonly treeDataProvider: LinuxDoTreeDataProvider;
+
+  // 当前账号的用户名，用于视图标题
+  private username?: string;
+  private loggedIn: boolean = false;
+
+  private autoRefreshTimer?: NodeJS.Timeout;
+
+  private disposables: vscode.Disposable[] = [];
+
+  // 登录状态、当前账号或离线状态变化时触发
+  private _onDidChangeStatus = new vscode.EventEmitter<void>();
+  readonly onDidChangeStatus: vscode.Event<void> = this._onDidChangeStatus.event;
+
+  // 登录、退出登录或切换账号时触发，按上一个账号加载的内容需要丢弃
+  private _onDidChangeAccount = new vscode.EventEmitter<void>();
+  readonly onDidChangeAccount: vscode.Event<void> = this._onDidChangeAccount.event;
+
+  /**
+   * 创建站点，先读取当前账号以选择对应的缓存目录
+   */
+  static async create(context: vscode.ExtensionContext, site: Site): Promise<SiteSession> {
+    const cookieStorage = new CookieStorage(context.secrets, site);
+    const activeAccount = await cookieStorage.getActiveAccount();
+    return new SiteSession(context, site, cookieStorage, activeAccount.id);
+  }
+
+  private constructor(
+    context: vscode.ExtensionContext,
+    readonly site: Site,
+    readonly cookieStorage: CookieStorage,
+    accountId: string
+  ) {
+    // 默认站点沿用原来的缓存目录
+    const storageUri = site.isDefault
+      ? context.globalStorageUri
+      : vscode.Uri.joinPath(context.globalStorageUri, 'sites', site.id);
+    this.responseCache = new ResponseCache(storageUri, accountId);
+
+    this.apiClient = new DiscourseApiClient(
+      site,
+      async () => {
+        return (await cookieStorage.getActiveAccount()).id;
+      },
+      async () => {
+        return await cookieStorage.getCookie();
+      },
+      async () => {
+        return await cookieStorage.getUserAgent();
+      },
+      async () => {
+        return await cookieStorage.getUserApiKey();
+      },
+      this.responseCache
+    );
+
+    this.authManager = new AuthenticationManager(context, site, cookieStorage, this.apiClient);
+
+    this.categoryService = new CategoryService(this.apiClient);
+    this.topicService = new TopicService(this.apiClient);
+    this.postService = new PostService(this.apiClient);
+    this.searchService = new SearchService(this.apiClient);
+    this.draftService = new DraftService(this.apiClient);
+    this.tagService = new TagService(this.apiClient);
+    this.notificationService = new NotificationService(this.apiClient);
+    this.notificationService.setAccount(accountId);
+    this.userService = new UserService(this.apiClient);
+    this.privateMessageService = new PrivateMessageService(this.apiClient, this.userService);
+    this.bookmarkService = new BookmarkService(this.apiClient, this.userService);
+    this.sessionMonitor = new SessionMonitor(site, cookieStorage, this.userService);
+
+    this.treeDataProvider = new LinuxDoTreeDataProvider(
+      site,
+      this.categoryService,
+      this.topicService,
+      this.postService,
+      this.searchService,
+      this.notificationService,
+      this.privateMessageService,
+      this.bookmarkService,
+      this.tagService,
+      context.workspaceState
+    );
+
+    this.disposables.push(
+      // 服务端轮换 Cookie 后保存，避免保存的 Cookie 失效
+      this.apiClient.onDidUpdateCookie(async ({ accountId, cookie, sessionExpiresAt }) => {
+        await cookieStorage.updateCookie(cookie, sessionExpiresAt, accountId);
+        await this.sessionMonitor.handleCookieUpdate();
+      }),
+      this.apiClient.onDidRejectAuth(() => {
+        this.sessionMonitor.markExpired();
+      }),
+      this.responseCache.onDidChangeOffline(() => {
+        this._onDidChangeStatus.fire();
+      }),
+      // 缓存在后台更新后刷新视图
+      this.responseCache.onDidUpdate(() => {
+        this.treeDataProvider.refreshFromCache();
+      }),
+      cookieStorage.onDidChangeCookie(change => this.handleCookieChange(change)),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('linuxdo.autoRefresh.interval')) {
+          this.scheduleAutoRefresh();
+        }
+      }),
+      new vscode.Disposable(() => clearInterval(this.autoRefreshTimer)),
+      this.responseCache,
+      this.sessionMonitor,
+      this.notificationService,
+      this.treeDataProvider
+    );
+
+    this.scheduleAutoRefresh();
+  }
+
+  /**
+   * 已登录时检查会话并开始轮询通知，不阻塞插件激活
+   * @returns 是否已登录
+   */
+  async start(): Promise<boolean> {
+    this.loggedIn = await this.cookieStorage.hasCookie();
+    if (this.loggedIn) {
+      this.sessionMonitor.check();
+      this.updateAccountProfile();
+      this.notificationService.start();
+    }
+    return this.loggedIn;
+  }
+
+  isLoggedIn(): boolean {
+    return this.loggedIn;
+  }
+
+  /**
+   * 当前账号和离线状态，例如 "username · 离线"
+   */
+  getDescription(): string | undefined {
+    const offline = this.responseCache.isOffline();
+    return [this.username, offline ? vscode.l10n.t('离线') : undefined].filter(Boolean).join(' · ') || undefined;
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this._onDidChangeStatus.dispose();
+    this._onDidChangeAccount.dispose();
+  }
+
+  /**
+   * 按设置的间隔定时刷新话题列表，间隔为 0 时关闭
+   */
+  private scheduleAutoRefresh(): void {
+    clearInterval(this.autoRefreshTimer);
+    this.autoRefreshTimer = undefined;
+
+    const minutes = vscode.workspace.getConfiguration('linuxdo').get<number>('autoRefresh.interval', 0);
+    if (minutes <= 0) {
+      return;
+    }
+    this.autoRefreshTimer = setInterval(() => {
+      // 窗口不在前台时跳过，避免无人查看时频繁请求
+      if (!vscode.window.state.focused) {
+        return;
+      }
+      console.log(`[SiteSession] 自动刷新 ${this.site.name}`);
+      this.responseCache.expire();
+      this.treeDataProvider.refreshFromCache();
+    }, Math.max(minutes, MIN_AUTO_REFRESH_INTERVAL) * 60 * 1000);
+  }
+
+  /**
+   * 登录后开始轮询，退出登录后停止
+   */
+  private async handleCookieChange(change: CookieChange): Promise<void> {
+    try {
+      this.apiClient.resetCookie();
+      this.userService.reset();
+      // 重新登录或退出登录后清空当前账号的缓存，切换账号时使用该账号自己的缓存
+      if (change !== 'switch') {
+        await this.responseCache.clear();
+      }
+      const account = await this.cookieStorage.getActiveAccount();
+      this.username = account.username;
+      await this.responseCache.setAccount(account.id);
+      this.notificationService.setAccount(account.id);
+      this.treeDataProvider.resetAccountData();
+      this.treeDataProvider.refresh();
+      this._onDidChangeAccount.fire();
+      this.sessionMonitor.check();
+
+      this.loggedIn = await this.cookieStorage.hasCookie();
+      if (this.loggedIn) {
+        this.notificationService.start();
+      } else {
+        this.notificationService.stop();
+      }
+      this._onDidChangeStatus.fire();
+      this.updateAccountProfile();
+    } catch (error: any) {
+      console.error(`[SiteSession] 切换 ${this.site.name} 登录状态失败:`, error.message);
+    }
+  }
+
+  /**
+   * 登录后记录账号的用户名和头像
+   */
+  private async updateAccountProfile(): Promise<void> {
+    if (await this.cookieStorage.hasCookie()) {
+      try {
+        const user = await this.userService.getCurrentUser();
+        await this.cookieStorage.updateAccountProfile(user.username, user.avatar_template);
+      } catch (error: any) {
+        console.error(`[SiteSession] 获取 ${this.site.name} 账号信息失败:`, error.message);
+      }
+    }
+    this.username = (await this.cookieStorage.getActiveAccount()).username;
+    this._onDidChangeStatus.fire();
+  }
+}
@@ -1,31 +1,129 @@
 import * as vscode from 'vscode';
 import { TreeItemNode, NodeType, NodeData } from './TreeItemNode';
 import { CategoryService } from '../services/CategoryService';
-import { TopicService } from '../services/TopicService';
-import { PostService } from '../services/PostService';
-import type { Topic, Post, TopicDetail, Notification } from '../api/ApiTypes';
+import { TopicService, DEFAULT_TOPIC_LIST_FILTER, getTopicListFilterLabel } from '../services/TopicService';
+import { PostService, getPostBatchSize } from '../services/PostService';
+import { SearchService, SearchResult } from '../services/SearchService';
+import { PrivateMessageService } from '../services/PrivateMessageService';
+import { BookmarkService } from '../services/BookmarkService';
+import { TagService, getTagName } from '../services/TagService';
+import { formatReminder } from '../bookmarks/BookmarkReminderPicker';
+import {
+  NotificationService,
+  NOTIFICATION_GROUPS,
+  OTHER_NOTIFICATION_GROUP,
+  getNotificationGroup,
+  getNotificationText,
+  getNotificationUrl
+} from '../services/NotificationService';
+import type { Category, Topic, Post, TopicDetail, Notification, PrivateMessageBox, TopicListFilter } from '../api/ApiTypes';
+import { NotificationLevel } from '../api/ApiTypes';
+import { getNotificationLevelOption } from '../notifications/NotificationLevelPicker';
+import { showError } from '../errors/ErrorHandler';
+import type { Site } from '../sites/Site';
 
-export class LinuxDoTreeDataProvider implements vscode.TreeDataProvider<TreeItemNode> {
+// 工作区状态中保存各节点排序方式的键
+const TOPIC_LIST_FILTERS_KEY = 'linuxdo.topicListFilters';
+
+// 话题节点描述的默认格式
+const DEFAULT_TOPIC_DESCRIPTION = 'V. ${views} R. ${replies}';
+
+// "私信"节点下的列表，名称在创建节点时翻译
+const MESSAGE_BOXES: { box: PrivateMessageBox; label: string }[] = [
+  { box: 'inbox', label: '收件箱' },
+  { box: 'unread', label: '未读' },
+  { box: 'sent', label: '已发送' },
+  { box: 'archive', label: '归档' }
+];
+
+export interface TopicPostsData {
+  title: string;
+  slug: string;
+  allPostIds: number[];
+  loadedPosts: Post[];
+  postsCount: number;
+  // 最大楼层号，上报阅读时间时不能超过
+  highestPostNumber: number;
+  lastReadPostNumber: number;
+}
+
+interface TopicListData {
+  topics: Topic[];
+  moreTopicsUrl?: string;
+  // 已加载的页数
+  pages: number;
+  // 列表所属的"全部"或分类节点，加载更多后刷新该节点
+  node: TreeItemNode;
+  isLoading: boolean;
+}
+
+export class LinuxDoTreeDataProvider implements vscode.TreeDataProvider<TreeItemNode>, vscode.Disposable {
   private _onDidChangeTreeData: vscode.EventEmitter<TreeItemNode | undefined | null | void>;
   readonly onDidChangeTreeData: vscode.Event<TreeItemNode | undefined | null | void>;
 
   // 存储每个话题的完整数据
-  private topicPostsData: Map<number, {
-    allPostIds: number[];
-    loadedPosts: Post[];
-    postsCount: number;
-  }> = new Map();
+  private topicPostsData: Map<number, TopicPostsData> = new Map();
+
+  // "全部"和各分类已加载的话题，按页累积
+  private topicLists: Map<string, TopicListData> = new Map();
+
+  // 分类ID到 slug 的映射，用于生成话题文档路径
+  private categorySlugs: Map<number, string> = new Map();
+
+  // 全部分类（包括子分类），用于在父分类下列出子分类
+  private categories: Category[] = [];
 
-  // 存储已读通知的 ID
-  private readNotificationIds: Set<number> = new Set();
+  // 固定到侧边栏的搜索结果
+  private searchState?: {
+    query: string;
+    results: SearchResult[];
+    page: number;
+    hasMore: boolean;
+  };
+
+  // 根节点"通知"，通知变化时只刷新这一部分
+  private notificationsNode?: TreeItemNode;
+
+  // 根节点"书签"，添加或删除书签后只刷新这一部分
+  private bookmarksNode?: TreeItemNode;
+
+  // 是否同时显示已读通知
+  private showReadNotifications: boolean = false;
+
+  // 正在加载子节点的请求，节点折叠时取消
+  private loadingRequests: Map<TreeItemNode, vscode.CancellationTokenSource> = new Map();
+
+  private configurationListener: vscode.Disposable;
 
   constructor(
+    private site: Site,
     private categoryService: CategoryService,
     private topicService: TopicService,
-    private postService: PostService
+    private postService: PostService,
+    private searchService: SearchService,
+    private notificationService: NotificationService,
+    private privateMessageService: PrivateMessageService,
+    private bookmarkService: BookmarkService,
+    private tagService: TagService,
+    private workspaceState: vscode.Memento
   ) {
     this._onDidChangeTreeData = new vscode.EventEmitter<TreeItemNode | undefined | null | void>();
     this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    // 修改显示相关的设置后立即刷新，每页数量变化后重新加载话题列表
+    this.configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('linuxdo.topics.pageSize')) {
+        this.resetTopicLists();
+        this.refresh();
+      } else if (event.affectsConfiguration('linuxdo.tree')) {
+        this.refresh();
+      }
+    });
+  }
+
+  dispose(): void {
+    this.configurationListener.dispose();
+    this._onDidChangeTreeData.dispose();
   }
 
   refresh(): void {
@@ -40,45 +138,87 @@ export class LinuxDoTreeDataProvider implements vscode.TreeDataProvider<TreeItem
     return element;
   }
 
+  /**
+   * 创建属于当前站点的节点
+   */
+  private createNode(data: NodeData, collapsibleState: vscode.TreeItemCollapsibleState): TreeItemNode {
+    return new TreeItemNode({ ...data, siteId: this.site.id }, collapsibleState);
+  }
+
   async getChildren(element?: TreeItemNode): Promise<TreeItemNode[]> {
+    if (!element) {
+      return this.getRootNodes();
+    }
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    this.loadingRequests.set(element, tokenSource);
+
     try {
-      if (!element) {
-        return this.getRootNodes();
+      return await this.getChildNodes(element, tokenSource.token);
+    } finally {
+      if (this.loadingRequests.get(element) === tokenSource) {
+        this.loadingRequests.delete(element);
       }
+      tokenSource.dispose();
+    }
+  }
+
+  /**
+   * 取消节点正在进行的加载，节点折叠时调用
+   */
+  cancelLoading(element: TreeItemNode): void {
+    this.loadingRequests.get(element)?.cancel();
+  }
 
+  private async getChildNodes(element: TreeItemNode, token: vscode.CancellationToken): Promise<TreeItemNode[]> {
+    try {
       console.log(`[LinuxDoTreeDataProvider] 加载节点类型: ${element.data.type}`);
 
       switch (element.data.type) {
         case NodeType.ALL_TOPICS:
           console.log('[LinuxDoTreeDataProvider] 加载全部话题...');
-          return this.getAllTopicsNodes();
+          return await this.getTopicListNodes(element, token);
         case NodeType.CATEGORY:
           console.log(`[LinuxDoTreeDataProvider] 加载分类 ${element.data.categoryId} 的话题...`);
-          return this.getCategoryTopics(element.data.categoryId!);
+          return [
+            ...this.getSubcategoryNodes(element.data.categoryId!),
+            ...await this.getTopicListNodes(element, token)
+          ];
+        case NodeType.TAGS:
+          return this.getTagNodes();
+        case NodeType.TAG:
+          console.log(`[LinuxDoTreeDataProvider] 加载标签 ${element.data.tagName} 的话题...`);
+          return await this.getTopicListNodes(element, token);
         case NodeType.TOPIC:
           console.log(`[LinuxDoTreeDataProvider] 加载话题 ${element.data.topicId} 的回复...`);
-          return this.getTopicPosts(element.data.topicId!);
+          return await this.getTopicPosts(element.data.topicId!, token);
+        case NodeType.SEARCH_RESULTS:
+          return this.getSearchResultNodes();
+        case NodeType.NOTIFICATIONS:
+          return this.getNotificationGroupNodes();
+        case NodeType.NOTIFICATION_GROUP:
+          return this.getNotificationNodes(element.data.notificationGroup!);
+        case NodeType.MESSAGES:
+          return this.getMessageBoxNodes();
+        case NodeType.MESSAGE_BOX:
+          return this.getMessageNodes(element.data.messageBox!);
+        case NodeType.BOOKMARKS:
+          return this.getBookmarkNodes();
         case NodeType.POST:
           return [];
         default:
           return [];
       }
     } catch (error: any) {
-      console.error(`[LinuxDoTreeDataProvider] 加载失败:`, error);
-
-      if (error.message.includes('登录已过期') || error.message.includes('请先登录')) {
-        vscode.window.showWarningMessage('登录已过期或未登录，请先登录', '登录').then(result => {
-          if (result === '登录') {
-            vscode.commands.executeCommand('linuxdo.login');
-          }
-        });
-      } else {
-        vscode.window.showErrorMessage(`加载失败: ${error.message}`, '查看日志').then(result => {
-          if (result === '查看日志') {
-            vscode.commands.executeCommand('workbench.action.toggleDevTools');
-          }
-        });
+      if (error instanceof vscode.CancellationError) {
+        // 节点已折叠，下次展开时重新加载
+        console.log(`[LinuxDoTreeDataProvider] 已取消加载: ${element.data.label}`);
+        this._onDidChangeTreeData.fire(element);
+        return [];
       }
+
+      console.error(`[LinuxDoTreeDataProvider] 加载失败:`, error);
+      showError(error, vscode.l10n.t('加载失败'));
       return [];
     }
   }
@@ -86,91 +226,182 @@ export class LinuxDoTreeDataProvider implements vscode.TreeDataProvider<TreeItem
   private async getRootNodes(): Promise<TreeItemNode[]> {
     const nodes: TreeItemNode[] = [];
 
-    // 获取未读通知并添加到顶部
-    try {
-      const apiClient = (this.postService as any).apiClient;
-      const notifications: Notification[] = await apiClient.getNotifications();
+    // 通知放在顶部，有未读通知时默认展开；隐藏后仍在状态栏显示未读数量
+    this.notificationsNode = undefined;
+    if (getTreeConfig().get<boolean>('showNotifications', true)) {
+      let unreadCount = 0;
+      try {
+        unreadCount = (await this.notificationService.getUnreadNotifications()).length;
+      } catch (error: any) {
+        console.error('[LinuxDoTreeDataProvider] 获取通知失败:', error);
+      }
 
-      // 过滤掉已读通知
-      const unreadNotifications = notifications.filter(n => !n.read && !this.readNotificationIds.has(n.id));
+      this.notificationsNode = this.createNode(
+        {
+          type: NodeType.NOTIFICATIONS,
+          label: vscode.l10n.t('通知'),
+          description: this.getNotificationsDescription(unreadCount)
+        },
+        unreadCount > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+      );
+      this.notificationsNode.contextValue = this.getNotificationsContextValue();
+      nodes.push(this.notificationsNode);
+    }
 
-      console.log(`[LinuxDoTreeDataProvider] 获取到 ${notifications.length} 条通知，未读 ${unreadNotifications.length} 条`);
+    nodes.push(this.createNode(
+      {
+        type: NodeType.MESSAGES,
+        label: vscode.l10n.t('私信')
+      },
+      vscode.TreeItemCollapsibleState.Collapsed
+    ));
 
-      // 添加未读通知节点
-      for (const notification of unreadNotifications) {
-        const notificationText = this.getNotificationText(notification);
-        nodes.push(new TreeItemNode(
-          {
-            type: NodeType.NOTIFICATION,
-            id: notification.id,
-            notificationId: notification.id,
-            topicId: notification.topic_id,
-            label: `${notificationText}`,
-            description: this.formatDate(notification.created_at),
-            url: `https://linux.do/t/${notification.slug}/${notification.topic_id}/${notification.post_number}`
-          },
-          vscode.TreeItemCollapsibleState.None
-        ));
-      }
-    } catch (error: any) {
-      console.error('[LinuxDoTreeDataProvider] 获取通知失败:', error);
+    this.bookmarksNode = this.createNode(
+      {
+        type: NodeType.BOOKMARKS,
+        label: vscode.l10n.t('书签')
+      },
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+    nodes.push(this.bookmarksNode);
+
+    if (this.searchState) {
+      nodes.push(this.createNode(
+        {
+          type: NodeType.SEARCH_RESULTS,
+          label: vscode.l10n.t('搜索结果'),
+          description: this.searchState.query,
+          searchQuery: this.searchState.query
+        },
+        vscode.TreeItemCollapsibleState.Expanded
+      ));
     }
 
-    nodes.push(new TreeItemNode(
+    nodes.push(this.createNode(
       {
         type: NodeType.ALL_TOPICS,
-        label: '全部',
-        description: '最新话题'
+        label: vscode.l10n.t('全部'),
+        description: getTopicListFilterLabel(this.getTopicListFilter())
+      },
+      vscode.TreeItemCollapsibleState.Collapsed
+    ));
+
+    nodes.push(this.createNode(
+      {
+        type: NodeType.TAGS,
+        label: vscode.l10n.t('标签')
       },
       vscode.TreeItemCollapsibleState.Collapsed
     ));
 
     try {
-      const categories = await this.categoryService.getCategories();
+      this.categories = await this.categoryService.getCategories();
 
-      for (const category of categories) {
-        nodes.push(new TreeItemNode(
-          {
-            type: NodeType.CATEGORY,
-            id: category.id,
-            categoryId: category.id,
-            label: ` ${category.name}`,
-            description: `x ${category.topic_count}`
-          },
-          vscode.TreeItemCollapsibleState.Collapsed
-        ));
+      // 顶级分类放在根节点，子分类在展开父分类时列出
+      for (const category of this.categories) {
+        this.categorySlugs.set(category.id, category.slug);
+        if (!category.parent_category_id && !this.isCategoryHidden(category.id)) {
+          nodes.push(this.createCategoryNode(category));
+        }
       }
     } catch (error: any) {
-      if (!error.message.includes('登录已过期')) {
-        vscode.window.showErrorMessage(`${error.message}`);
-      }
+      showError(error);
     }
 
     return nodes;
   }
 
+  private createCategoryNode(category: Category): TreeItemNode {
+    return this.createNode(
+      {
+        type: NodeType.CATEGORY,
+        id: category.id,
+        categoryId: category.id,
+        topicCount: category.topic_count,
+        color: category.color,
+        notificationLevel: category.notification_level,
+        label: ` ${category.name}`,
+        description: this.getCategoryDescription(category.id, category.topic_count)
+      },
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+  }
+
+  private getSubcategoryNodes(categoryId: number): TreeItemNode[] {
+    return this.categories
+      .filter(category => category.parent_category_id === categoryId && !this.isCategoryHidden(category.id))
+      .map(category => this.createCategoryNode(category));
+  }
+
   /**
-   * 将通知转换为可读文本
+   * 分类是否在设置中被隐藏或设为免打扰，父分类被隐藏时子分类也隐藏
+   * 设置中可以填写分类名称、slug 或 ID
    */
-  private getNotificationText(notification: Notification): string {
-    const username = notification.data.display_username || notification.data.original_username;
-    const topicTitle = notification.data.topic_title;
-
-    // notification_type: 1=提及 2=回复 6=点赞 等
-    switch (notification.notification_type) {
-      case 1:
-        return `${username} 在 "${topicTitle}" 中提到了你`;
-      case 2:
-        return `${username} 回复了你在 "${topicTitle}" 的帖子`;
-      case 5:
-        return `${username} 回复了 "${topicTitle}"`;
-      case 6:
-        return `${username} 点赞了你的帖子`;
-      case 9:
-        return `${username} 回复了你`;
-      default:
-        return `来自 ${username} 的通知: ${topicTitle}`;
+  private isCategoryHidden(categoryId: number): boolean {
+    const hidden = getTreeConfig().get<string[]>('hiddenCategories', []).map(entry => String(entry).trim().toLowerCase());
+    const showMuted = getTreeConfig().get<boolean>('showMuted', false);
+    if (hidden.length === 0 && showMuted) {
+      return false;
     }
+
+    let category = this.categories.find(c => c.id === categoryId);
+    while (category) {
+      if ([String(category.id), category.slug.toLowerCase(), category.name.toLowerCase()].some(key => hidden.includes(key))) {
+        return true;
+      }
+      if (!showMuted && category.notification_level === NotificationLevel.Muted) {
+        return true;
+      }
+      const parentId = category.parent_category_id;
+      category = parentId ? this.categories.find(c => c.id === parentId) : undefined;
+    }
+    return false;
+  }
+
+  private async getTagNodes(): Promise<TreeItemNode[]> {
+    const tags = await this.tagService.getTags();
+    console.log(`[LinuxDoTreeDataProvider] 获取到 ${tags.length} 个标签`);
+
+    return tags.map(tag => {
+      const tagName = getTagName(tag);
+      return this.createNode(
+        {
+          type: NodeType.TAG,
+          id: `tag-${tagName}`,
+          tagName,
+          label: tagName,
+          description: `x ${tag.count}`
+        },
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+    });
+  }
+
+  /**
+   * 通知变化后只刷新"通知"节点
+   */
+  refreshNotifications(): void {
+    if (!this.notificationsNode) {
+      return;
+    }
+    this.notificationsNode.description = this.getNotificationsDescription(this.notificationService.getUnreadCount());
+    this.notificationsNode.contextValue = this.getNotificationsContextValue();
+    this._onDidChangeTreeData.fire(this.notificationsNode);
+  }
+
+  /**
+   * 切换当前站点是否显示已读通知
+   */
+  setShowReadNotifications(show: boolean): void {
+    this.showReadNotifications = show;
+    this.refreshNotifications();
+  }
+
+  /**
+   * 显示已读通知时节点显示"隐藏已读通知"按钮，否则显示"显示已读通知"按钮
+   */
+  private getNotificationsContextValue(): string {
+    return this.showReadNotifications ? 'notifications-showRead' : NodeType.NOTIFICATIONS;
   }
 
   /**
@@ -178,106 +409,507 @@ export class LinuxDoTreeDataProvider implements vscode.TreeDataProvider<TreeItem
    */
   async markNotificationAsRead(notificationId: number): Promise<void> {
     try {
-      const apiClient = (this.postService as any).apiClient;
-      await apiClient.markNotificationAsRead(notificationId);
+      // 通知服务会触发变更事件刷新视图
+      await this.notificationService.markAsRead(notificationId);
+    } catch (error: any) {
+      console.error('[LinuxDoTreeDataProvider] 标记通知已读失败:', error);
+    }
+  }
+
+  /**
+   * 加载更早的通知
+   */
+  async loadMoreNotifications(): Promise<void> {
+    try {
+      await this.notificationService.loadMore();
+    } catch (error: any) {
+      console.error('[LinuxDoTreeDataProvider] 加载更多通知失败:', error);
+      showError(error);
+    }
+  }
+
+  private async getVisibleNotifications(): Promise<Notification[]> {
+    if (this.showReadNotifications) {
+      return this.notificationService.getAllNotifications();
+    }
+    return this.notificationService.getUnreadNotifications();
+  }
+
+  private async getNotificationGroupNodes(): Promise<TreeItemNode[]> {
+    const notifications = await this.getVisibleNotifications();
+
+    // 按分组统计，只显示有通知的分组
+    const groupCounts: Map<string, { total: number; unread: number }> = new Map();
+    for (const notification of notifications) {
+      const groupId = getNotificationGroup(notification.notification_type).id;
+      const counts = groupCounts.get(groupId) || { total: 0, unread: 0 };
+      counts.total++;
+      if (this.notificationService.isUnread(notification)) {
+        counts.unread++;
+      }
+      groupCounts.set(groupId, counts);
+    }
+
+    const groups = [...NOTIFICATION_GROUPS, OTHER_NOTIFICATION_GROUP];
+    const nodes = groups
+      .filter(group => groupCounts.has(group.id))
+      .map(group => {
+        const counts = groupCounts.get(group.id)!;
+        return this.createNode(
+          {
+            type: NodeType.NOTIFICATION_GROUP,
+            id: group.id,
+            notificationGroup: group.id,
+            label: vscode.l10n.t(group.label),
+            description: counts.unread > 0 ? vscode.l10n.t('{0} 条未读', counts.unread) : vscode.l10n.t('{0} 条', counts.total)
+          },
+          counts.unread > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+      });
+
+    if (this.showReadNotifications && this.notificationService.hasMore()) {
+      nodes.push(this.createNode(
+        {
+          type: NodeType.LOAD_MORE,
+          label: vscode.l10n.t('加载更多通知'),
+          parentType: NodeType.NOTIFICATIONS
+        },
+        vscode.TreeItemCollapsibleState.None
+      ));
+    }
+
+    return nodes;
+  }
+
+  private async getNotificationNodes(groupId: string): Promise<TreeItemNode[]> {
+    const notifications = await this.getVisibleNotifications();
+
+    return notifications
+      .filter(notification => getNotificationGroup(notification.notification_type).id === groupId)
+      .map(notification => {
+        const read = !this.notificationService.isUnread(notification);
+        return this.createNode(
+          {
+            type: NodeType.NOTIFICATION,
+            id: notification.id,
+            notificationId: notification.id,
+            notificationType: notification.notification_type,
+            topicId: notification.topic_id ?? undefined,
+            read: read,
+            label: getNotificationText(notification),
+            description: read ? vscode.l10n.t('已读 · {0}', this.formatDate(notification.created_at)) : this.formatDate(notification.created_at),
+            url: getNotificationUrl(notification, this.site)
+          },
+          vscode.TreeItemCollapsibleState.None
+        );
+      });
+  }
+
+  private getNotificationsDescription(unreadCount: number): string {
+    return unreadCount > 0 ? vscode.l10n.t('{0} 条未读', unreadCount) : '';
+  }
+
+  private getMessageBoxNodes(): TreeItemNode[] {
+    return MESSAGE_BOXES.map(({ box, label }) => this.createNode(
+      {
+        type: NodeType.MESSAGE_BOX,
+        id: box,
+        messageBox: box,
+        label: vscode.l10n.t(label)
+      },
+      box === 'inbox' ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+    ));
+  }
+
+  private async getMessageNodes(box: PrivateMessageBox): Promise<TreeItemNode[]> {
+    const topics = await this.privateMessageService.getMessages(box);
+    console.log(`[LinuxDoTreeDataProvider] 私信 ${box}: ${topics.length} 条`);
+
+    return topics.map(topic => {
+      const unread = topic.unread_posts ? `${vscode.l10n.t('{0} 条未读', topic.unread_posts)} · ` : '';
+      const lastPoster = topic.last_poster_username ? `@${topic.last_poster_username} · ` : '';
+      return this.createNode(
+        {
+          type: NodeType.MESSAGE,
+          id: `message-${topic.id}`,
+          topicId: topic.id,
+          slug: topic.slug,
+          label: topic.title,
+          description: `${unread}${lastPoster}${this.formatDate(topic.last_posted_at || topic.created_at)}`,
+          url: this.site.topicUrl(topic.slug, topic.id)
+        },
+        vscode.TreeItemCollapsibleState.None
+      );
+    });
+  }
+
+  /**
+   * 书签变化后只刷新"书签"节点
+   */
+  refreshBookmarks(): void {
+    this._onDidChangeTreeData.fire(this.bookmarksNode);
+  }
+
+  private async getBookmarkNodes(): Promise<TreeItemNode[]> {
+    const bookmarks = await this.bookmarkService.getBookmarks();
+    console.log(`[LinuxDoTreeDataProvider] 获取到 ${bookmarks.length} 个书签`);
+
+    return bookmarks.map(bookmark => {
+      const isPost = bookmark.bookmarkable_type === 'Post';
+      const reminder = bookmark.reminder_at ? vscode.l10n.t('提醒: {0}', formatReminder(new Date(bookmark.reminder_at))) : this.formatDate(bookmark.created_at);
+      const location = isPost && bookmark.linked_post_number > 1 ? `#${bookmark.linked_post_number} · ` : '';
+      return this.createNode(
+        {
+          type: NodeType.BOOKMARK,
+          id: `bookmark-${bookmark.id}`,
+          bookmarkId: bookmark.id,
+          reminderAt: bookmark.reminder_at || undefined,
+          topicId: bookmark.topic_id,
+          slug: bookmark.slug,
+          postNumber: isPost ? bookmark.linked_post_number : undefined,
+          label: bookmark.name || bookmark.title,
+          description: `${location}${reminder}`,
+          tooltip: bookmark.excerpt ? this.extractTextFromHtml(bookmark.excerpt) : undefined,
+          url: this.site.topicUrl(bookmark.slug, bookmark.topic_id, bookmark.linked_post_number)
+        },
+        vscode.TreeItemCollapsibleState.None
+      );
+    });
+  }
+
+  /**
+   * 将搜索结果固定为侧边栏的根节点
+   */
+  pinSearchResults(query: string, results: SearchResult[], hasMore: boolean): void {
+    this.searchState = { query, results, page: 1, hasMore };
+    this.refresh();
+  }
 
-      // 添加到已读集合
-      this.readNotificationIds.add(notificationId);
+  clearSearchResults(): void {
+    this.searchState = undefined;
+    this.refresh();
+  }
 
-      console.log(`[LinuxDoTreeDataProvider] 通知 ${notificationId} 已标记为已读`);
+  /**
+   * 加载下一页搜索结果
+   */
+  async loadMoreSearchResults(): Promise<void> {
+    if (!this.searchState || !this.searchState.hasMore) {
+      return;
+    }
 
-      // 刷新视图
+    const state = this.searchState;
+    try {
+      const nextPage = await this.searchService.search(state.query, state.page + 1);
+      const loadedPostIds = new Set(state.results.map(result => result.post.id));
+      state.results.push(...nextPage.results.filter(result => !loadedPostIds.has(result.post.id)));
+      state.page += 1;
+      state.hasMore = nextPage.hasMore;
       this.refresh();
     } catch (error: any) {
-      console.error('[LinuxDoTreeDataProvider] 标记通知已读失败:', error);
+      console.error('[LinuxDoTreeDataProvider] 加载更多搜索结果失败:', error);
+      showError(error);
+    }
+  }
+
+  private getSearchResultNodes(): TreeItemNode[] {
+    if (!this.searchState) {
+      return [];
+    }
+
+    const nodes = this.searchState.results.map(({ post, topic }) => this.createNode(
+      {
+        type: NodeType.TOPIC,
+        id: `search-${post.id}`,
+        topicId: post.topic_id,
+        slug: topic?.slug,
+        categoryId: topic?.category_id,
+        categorySlug: topic ? this.categorySlugs.get(topic.category_id) : undefined,
+        label: topic?.title || `#${post.topic_id}`,
+        description: `@${post.username}: ${this.extractTextFromHtml(post.blurb)}`,
+        url: this.site.topicUrl(topic?.slug, post.topic_id, post.post_number)
+      },
+      vscode.TreeItemCollapsibleState.Collapsed
+    ));
+
+    if (this.searchState.hasMore) {
+      nodes.push(this.createNode(
+        {
+          type: NodeType.LOAD_MORE,
+          label: vscode.l10n.t('加载更多'),
+          description: vscode.l10n.t('第 {0} 页', this.searchState.page + 1),
+          searchQuery: this.searchState.query
+        },
+        vscode.TreeItemCollapsibleState.None
+      ));
     }
+
+    return nodes;
+  }
+
+  /**
+   * 获取"全部"节点或分类节点当前的排序方式
+   */
+  getTopicListFilter(categoryId?: number): TopicListFilter {
+    const filters = this.workspaceState.get<Record<string, TopicListFilter>>(this.site.storageKey(TOPIC_LIST_FILTERS_KEY), {});
+    return filters[this.getTopicListFilterKey(categoryId)] || DEFAULT_TOPIC_LIST_FILTER;
   }
 
-  private async getAllTopicsNodes(): Promise<TreeItemNode[]> {
-    const topics = await this.topicService.getLatestTopics();
-    console.log(`[LinuxDoTreeDataProvider] 获取到 ${topics.length} 个话题`);
+  /**
+   * 修改排序方式并保存到工作区状态，然后重新加载该节点
+   */
+  async setTopicListFilter(node: TreeItemNode, filter: TopicListFilter): Promise<void> {
+    const categoryId = node.data.type === NodeType.CATEGORY ? node.data.categoryId : undefined;
+    const filters = this.workspaceState.get<Record<string, TopicListFilter>>(this.site.storageKey(TOPIC_LIST_FILTERS_KEY), {});
+    await this.workspaceState.update(this.site.storageKey(TOPIC_LIST_FILTERS_KEY), {
+      ...filters,
+      [this.getTopicListFilterKey(categoryId)]: filter
+    });
+    this.topicLists.delete(this.getTopicListFilterKey(categoryId));
+
+    node.description = categoryId !== undefined
+      ? this.getCategoryDescription(categoryId, node.data.topicCount)
+      : getTopicListFilterLabel(filter);
+    this._onDidChangeTreeData.fire(node);
+  }
+
+  private getTopicListFilterKey(categoryId?: number): string {
+    return categoryId !== undefined ? `category-${categoryId}` : 'all';
+  }
+
+  private getCategoryDescription(categoryId: number, topicCount?: number): string {
+    const description = `x ${topicCount ?? 0} · ${getTopicListFilterLabel(this.getTopicListFilter(categoryId))}`;
+    return withNotificationLevel(description, this.categories.find(category => category.id === categoryId)?.notification_level);
+  }
 
-    if (topics.length === 0) {
-      vscode.window.showInformationMessage('没有找到话题');
+  /**
+   * 丢弃已加载的话题，下次展开时重新获取第一页
+   * @param node "全部"或分类节点，不传则丢弃全部
+   */
+  resetTopicLists(node?: TreeItemNode): void {
+    if (!node) {
+      this.topicLists.clear();
+      return;
     }
+    this.topicLists.delete(this.getTopicListKey(node.data.type, node.data));
+  }
+
+  /**
+   * 丢弃和账号相关的已加载内容：话题列表、话题回复和固定的搜索结果
+   * 登录、退出登录或切换账号后调用，避免显示上一个账号看到的内容
+   */
+  resetAccountData(): void {
+    this.topicLists.clear();
+    this.topicPostsData.clear();
+    this.searchState = undefined;
+  }
 
-    return this.createTopicNodes(topics);
+  /**
+   * 缓存在后台更新后刷新视图
+   * 只加载了第一页的列表直接重新获取，已翻页的列表保留，避免丢失浏览位置
+   */
+  refreshFromCache(): void {
+    for (const [key, list] of this.topicLists) {
+      if (list.pages === 1 && !list.isLoading) {
+        this.topicLists.delete(key);
+      }
+    }
+    this.refresh();
   }
 
-  private async getCategoryTopics(categoryId: number): Promise<TreeItemNode[]> {
-    const topics = await this.topicService.getCategoryTopics(categoryId);
-    return this.createTopicNodes(topics);
+  /**
+   * 加载下一页话题
+   * @param node "加载更多话题"节点
+   */
+  async loadMoreTopics(node: TreeItemNode): Promise<void> {
+    const list = this.topicLists.get(this.getTopicListKey(node.data.parentType!, node.data));
+    if (!list || !list.moreTopicsUrl || list.isLoading) {
+      return;
+    }
+
+    list.isLoading = true;
+    try {
+      const page = await this.topicService.getMoreTopics(list.moreTopicsUrl);
+      const loadedIds = new Set(list.topics.map(topic => topic.id));
+      const newTopics = page.topics.filter(topic => !loadedIds.has(topic.id));
+      list.topics.push(...newTopics);
+      list.pages++;
+      // 没有返回新话题时停止翻页，避免重复请求同一页
+      list.moreTopicsUrl = newTopics.length > 0 ? page.moreTopicsUrl : undefined;
+      console.log(`[LinuxDoTreeDataProvider] 加载了 ${newTopics.length} 个话题，当前共 ${list.topics.length} 个`);
+      this._onDidChangeTreeData.fire(list.node);
+    } catch (error: any) {
+      console.error('[LinuxDoTreeDataProvider] 加载更多话题失败:', error);
+      showError(error);
+    } finally {
+      list.isLoading = false;
+    }
   }
 
-  private async getTopicPosts(topicId: number): Promise<TreeItemNode[]> {
+  /**
+   * "全部"、分类和标签节点下已加载话题的缓存键
+   */
+  private getTopicListKey(type: NodeType, data: NodeData): string {
+    if (type === NodeType.TAG) {
+      return `tag-${data.tagName}`;
+    }
+    return this.getTopicListFilterKey(type === NodeType.CATEGORY ? data.categoryId : undefined);
+  }
+
+  private async getTopicListNodes(element: TreeItemNode, token?: vscode.CancellationToken): Promise<TreeItemNode[]> {
+    const categoryId = element.data.type === NodeType.CATEGORY ? element.data.categoryId : undefined;
+    const tagName = element.data.type === NodeType.TAG ? element.data.tagName : undefined;
+    const key = this.getTopicListKey(element.data.type, element.data);
+
+    let list = this.topicLists.get(key);
+    if (!list) {
+      const page = tagName
+        ? await this.topicService.getTagTopics(tagName, token)
+        : await this.topicService.getTopics(this.getTopicListFilter(categoryId), categoryId, token);
+      console.log(`[LinuxDoTreeDataProvider] 获取到 ${page.topics.length} 个话题`);
+
+      if (page.topics.length === 0 && element.data.type === NodeType.ALL_TOPICS) {
+        vscode.window.showInformationMessage(vscode.l10n.t('没有找到话题'));
+      }
+
+      list = { ...page, pages: 1, node: element, isLoading: false };
+      this.topicLists.set(key, list);
+    }
+    list.node = element;
+
+    const nodes = this.createTopicNodes(list.topics);
+    if (list.moreTopicsUrl) {
+      nodes.push(this.createNode(
+        {
+          type: NodeType.LOAD_MORE,
+          label: vscode.l10n.t('加载更多话题'),
+          description: vscode.l10n.t('已加载 {0} 个', list.topics.length),
+          categoryId,
+          tagName,
+          parentType: element.data.type
+        },
+        vscode.TreeItemCollapsibleState.None
+      ));
+    }
+    return nodes;
+  }
+
+  /**
+   * 获取话题的缓存数据，首次访问时加载话题详情
+   */
+  async getTopicData(topicId: number, token?: vscode.CancellationToken): Promise<TopicPostsData> {
     // 如果还没有加载过这个话题的数据，先加载
     if (!this.topicPostsData.has(topicId)) {
-      // 通过 postService 获取话题详情（它会调用 getTopic）
-      const apiClient = (this.postService as any).apiClient;
-      const topicDetail: TopicDetail = await apiClient.getTopic(topicId);
+      const topicDetail: TopicDetail = await this.postService.getTopic(topicId, token);
 
       console.log(`[LinuxDoTreeDataProvider] 首次加载话题 ${topicId}: 总回复数=${topicDetail.posts_count}, stream长度=${topicDetail.post_stream.stream?.length || 0}`);
 
       // 存储话题的完整数据
       this.topicPostsData.set(topicId, {
+        title: topicDetail.title,
+        slug: topicDetail.slug,
         allPostIds: topicDetail.post_stream.stream || [],
         loadedPosts: topicDetail.post_stream.posts || [],
-        postsCount: topicDetail.posts_count
+        postsCount: topicDetail.posts_count,
+        highestPostNumber: topicDetail.highest_post_number || topicDetail.posts_count,
+        lastReadPostNumber: topicDetail.last_read_post_number || 0
       });
     }
 
-    const topicData = this.topicPostsData.get(topicId)!;
+    return this.topicPostsData.get(topicId)!;
+  }
+
+  /**
+   * 上报阅读时间后更新已读楼层，刷新列表中的未读数量
+   */
+  markTopicRead(topicId: number, postNumber: number): void {
+    const topicData = this.topicPostsData.get(topicId);
+    if (topicData) {
+      topicData.lastReadPostNumber = Math.max(topicData.lastReadPostNumber, postNumber);
+    }
+
+    for (const list of this.topicLists.values()) {
+      const topic = list.topics.find(topic => topic.id === topicId);
+      if (topic && (topic.unseen || (topic.last_read_post_number ?? 0) < postNumber)) {
+        // 按新读到的楼层数估算剩余未读数量，下次刷新列表时以站点返回的为准
+        const readCount = postNumber - (topic.last_read_post_number ?? 0);
+        topic.unread_posts = Math.max(getUnreadCount(topic) - readCount, 0);
+        topic.unseen = false;
+        topic.last_read_post_number = Math.max(topic.last_read_post_number ?? 0, postNumber);
+        this._onDidChangeTreeData.fire(list.node);
+      }
+    }
+  }
+
+  /**
+   * 修改话题的通知级别后更新已加载的列表
+   */
+  updateTopicNotificationLevel(topicId: number, level: NotificationLevel): void {
+    for (const list of this.topicLists.values()) {
+      const topic = list.topics.find(topic => topic.id === topicId);
+      if (topic) {
+        topic.notification_level = level;
+        this._onDidChangeTreeData.fire(list.node);
+      }
+    }
+  }
+
+  /**
+   * 修改分类的通知级别后刷新，免打扰的分类及其话题会被隐藏
+   */
+  updateCategoryNotificationLevel(categoryId: number, level: NotificationLevel): void {
+    const category = this.categories.find(category => category.id === categoryId);
+    if (category) {
+      category.notification_level = level;
+    }
+    this.refresh();
+  }
+
+  /**
+   * 丢弃话题的缓存数据，例如发布回复之后
+   */
+  invalidateTopic(topicId: number): void {
+    this.topicPostsData.delete(topicId);
+    this.refresh();
+  }
+
+  private async getTopicPosts(topicId: number, token?: vscode.CancellationToken): Promise<TreeItemNode[]> {
+    const topicData = await this.getTopicData(topicId, token);
     const loadedPosts = topicData.loadedPosts;
-    const postsCount = topicData.postsCount;
 
-    console.log(`[LinuxDoTreeDataProvider] 话题 ${topicId}: 已加载=${loadedPosts.length}, 总数=${postsCount}`);
+    console.log(`[LinuxDoTreeDataProvider] 话题 ${topicId}: 已加载=${loadedPosts.length}, 总数=${topicData.postsCount}`);
 
     // 按顺序排序
     const sortedPosts = loadedPosts.sort((a, b) => a.post_number - b.post_number);
 
-    // 创建回复节点
-    const postNodes = sortedPosts.map(post => {
+    // 创建回复节点，更多回复在阅读器中滚动加载
+    return sortedPosts.map(post => {
       const previewText = this.extractTextFromHtml(post.cooked);
-      return new TreeItemNode(
+      return this.createNode(
         {
           type: NodeType.POST,
           id: post.id,
           postId: post.id,
           topicId: topicId,
+          postNumber: post.post_number,
           label: ` ${post.username}`,
           description: `#${post.post_number} - ${previewText}`
         },
         vscode.TreeItemCollapsibleState.None
       );
     });
-
-    // 如果还有更多回复，添加"加载更多"节点
-    if (loadedPosts.length < postsCount) {
-      console.log(`[LinuxDoTreeDataProvider] 添加"加载更多"节点，还有 ${postsCount - loadedPosts.length} 条回复`);
-      postNodes.push(new TreeItemNode(
-        {
-          type: NodeType.LOAD_MORE,
-          topicId: topicId,
-          label: '加载更多',
-          description: `+${postsCount - loadedPosts.length}`
-        },
-        vscode.TreeItemCollapsibleState.None
-      ));
-    } else {
-      console.log(`[LinuxDoTreeDataProvider] 没有更多回复`);
-    }
-
-    return postNodes;
   }
 
   /**
    * 加载更多回复
+   * @param refreshTree 是否刷新树视图，阅读器中滚动加载时不需要
+   * @returns 本次新加载的回复
    */
-  async loadMorePosts(topicId: number): Promise<void> {
+  async loadMorePosts(topicId: number, refreshTree: boolean = true): Promise<Post[]> {
     const topicData = this.topicPostsData.get(topicId);
     if (!topicData) {
       console.error(`[LinuxDoTreeDataProvider] 未找到话题 ${topicId} 的数据`);
-      return;
+      return [];
     }
 
     const allPostIds = topicData.allPostIds;
@@ -287,65 +919,97 @@ export class LinuxDoTreeDataProvider implements vscode.TreeDataProvider<TreeItem
     const loadedPostIds = new Set(loadedPosts.map(p => p.id));
 
     console.log(`[LinuxDoTreeDataProvider] 话题 ${topicId}: 所有ID数=${allPostIds.length}, 已加载=${loadedPostIds.size}`);
-    console.log(`[LinuxDoTreeDataProvider] 已加载的ID:`, Array.from(loadedPostIds).slice(0, 5), '...');
 
     // 找出还未加载的 post ID
     const unloadedPostIds = allPostIds.filter(id => !loadedPostIds.has(id));
 
     if (unloadedPostIds.length === 0) {
       console.log(`[LinuxDoTreeDataProvider] 没有更多未加载的回复`);
-      vscode.window.showInformationMessage('没有更多回复了');
-      return;
+      return [];
     }
 
-    // 获取下一批20个未加载的 post ID
-    const nextBatchIds = unloadedPostIds.slice(0, 20);
+    // 获取下一批未加载的 post ID，每批数量来自设置
+    const nextBatchIds = unloadedPostIds.slice(0, getPostBatchSize());
 
     console.log(`[LinuxDoTreeDataProvider] 将加载下一批 ${nextBatchIds.length} 条回复，ID:`, nextBatchIds.slice(0, 5), '...');
 
-    try {
-      // 调用 API 加载更多回复
-      const apiClient = (this.postService as any).apiClient;
-      const morePosts: Post[] = await apiClient.loadMoreTopicPosts(topicId, nextBatchIds);
+    const morePosts = await this.postService.loadMoreTopicPosts(topicId, nextBatchIds);
 
-      console.log(`[LinuxDoTreeDataProvider] API 返回 ${morePosts.length} 条回复`);
-      console.log(`[LinuxDoTreeDataProvider] 返回的回复 ID:`, morePosts.map(p => p.id).slice(0, 5), '...');
+    console.log(`[LinuxDoTreeDataProvider] API 返回 ${morePosts.length} 条回复`);
 
-      // 过滤掉已经存在的回复（防止重复）
-      const newPosts = morePosts.filter(post => !loadedPostIds.has(post.id));
+    // 过滤掉已经存在的回复（防止重复）
+    const newPosts = morePosts.filter(post => !loadedPostIds.has(post.id));
 
-      console.log(`[LinuxDoTreeDataProvider] 过滤后有 ${newPosts.length} 条新回复`);
+    // 将新加载的回复添加到已加载列表中
+    topicData.loadedPosts = [...topicData.loadedPosts, ...newPosts];
 
-      // 将新加载的回复添加到已加载列表中
-      topicData.loadedPosts = [...topicData.loadedPosts, ...newPosts];
+    // 接口没有返回请求的回复（已删除等），从待加载列表中移除，避免重复请求
+    const returnedIds = new Set(morePosts.map(post => post.id));
+    topicData.allPostIds = allPostIds.filter(id => loadedPostIds.has(id) || returnedIds.has(id) || !nextBatchIds.includes(id));
 
-      console.log(`[LinuxDoTreeDataProvider] 成功加载，当前总数=${topicData.loadedPosts.length}`);
+    console.log(`[LinuxDoTreeDataProvider] 成功加载，当前总数=${topicData.loadedPosts.length}`);
 
-      // 刷新树视图
+    // 刷新树视图
+    if (refreshTree) {
       this._onDidChangeTreeData.fire();
-    } catch (error: any) {
-      console.error(`[LinuxDoTreeDataProvider] 加载更多回复失败:`, error);
-      vscode.window.showErrorMessage(`加载更多回复失败: ${error.message}`);
     }
+
+    return newPosts;
   }
 
   private createTopicNodes(topics: Topic[]): TreeItemNode[] {
-    return topics.map(topic => {
-      const url = `https://linux.do/t/${topic.slug}/${topic.id}`;
-      return new TreeItemNode(
+    // "全部"和标签下也不显示隐藏分类的话题，免打扰的话题默认不显示
+    const showMuted = getTreeConfig().get<boolean>('showMuted', false);
+    return topics.filter(topic => !this.isCategoryHidden(topic.category_id)
+      && (showMuted || topic.notification_level !== NotificationLevel.Muted)).map(topic => {
+      const url = this.site.topicUrl(topic.slug, topic.id);
+      const unreadCount = getUnreadCount(topic);
+      return this.createNode(
         {
           type: NodeType.TOPIC,
           id: topic.id,
           topicId: topic.id,
+          slug: topic.slug,
+          categoryId: topic.category_id,
+          categorySlug: this.categorySlugs.get(topic.category_id),
           label: topic.title,
-          description: `V. ${topic.views} R. ${topic.reply_count}`,
-          url: url
+          description: this.getTopicDescription(topic),
+          url: url,
+          pinned: topic.pinned,
+          closed: topic.closed,
+          archived: topic.archived,
+          isNew: !!topic.unseen,
+          notificationLevel: topic.notification_level,
+          unreadCount,
+          highestPostNumber: topic.highest_post_number,
+          firstUnreadPostNumber: unreadCount > 0 && topic.last_read_post_number ? topic.last_read_post_number + 1 : undefined
         },
         vscode.TreeItemCollapsibleState.Collapsed
       );
     });
   }
 
+  /**
+   * 按设置中的格式生成话题节点的描述，例如 "V. ${views} R. ${replies}"
+   */
+  private getTopicDescription(topic: Topic): string {
+    const format = getTreeConfig().get<string>('topicDescription', DEFAULT_TOPIC_DESCRIPTION);
+    const values: Record<string, string | number | undefined> = {
+      views: topic.views,
+      replies: topic.reply_count,
+      posts: topic.posts_count,
+      likes: topic.like_count ?? 0,
+      lastPoster: topic.last_poster_username,
+      lastPosted: this.formatDate(topic.last_posted_at || topic.created_at),
+      created: this.formatDate(topic.created_at),
+      category: this.categories.find(category => category.id === topic.category_id)?.name
+    };
+    const description = format.replace(/\$\{(\w+)\}/g, (match, name: string) => name in values ? String(values[name] ?? '') : match).trim();
+
+    const unread = getUnreadCount(topic);
+    return withNotificationLevel(unread > 0 ? `${vscode.l10n.t('{0} 条未读', unread)} · ${description}` : description, topic.notification_level);
+  }
+
   private extractTextFromHtml(html: string): string {
     return html
       .replace(/<[^>]*>/g, '')
@@ -363,15 +1027,35 @@ export class LinuxDoTreeDataProvider implements vscode.TreeDataProvider<TreeItem
     const diff = now.getTime() - date.getTime();
     const days = Math.floor(diff / (1000 * 60 * 60 * 24));
 
-    if (days === 0) {
-      return '今天';
-    }
-    if (days === 1) {
-      return '昨天';
-    }
+    // 一周内按界面语言显示相对时间，例如"今天"、"昨天"、"3天前"
     if (days < 7) {
-      return `${days}天前`;
+      return new Intl.RelativeTimeFormat(vscode.env.language, { numeric: 'auto' }).format(-days, 'day');
     }
-    return date.toLocaleDateString('zh-CN');
+    return date.toLocaleDateString(vscode.env.language);
+  }
+}
+
+/**
+ * 关注、跟踪和免打扰的话题和分类在描述开头显示通知级别，保留原来的状态图标和分类颜色
+ */
+function withNotificationLevel(description: string, level: NotificationLevel | undefined): string {
+  if (level === undefined || level === NotificationLevel.Regular) {
+    return description;
   }
+  return `${vscode.l10n.t(getNotificationLevelOption(level).label)} · ${description}`;
+}
+
+/**
+ * 读过的话题中还没读到的回复数量
+ * 新版 Discourse 的 new_posts 只是 unread_posts 的别名，旧版只返回 new_posts
+ */
+function getUnreadCount(topic: Topic): number {
+  return topic.unread_posts ?? topic.new_posts ?? 0;
+}
+
+/**
+ * 侧边栏的显示设置，每次使用时读取以便修改后立即生效
+ */
+function getTreeConfig(): vscode.WorkspaceConfiguration {
+  return vscode.workspace.getConfiguration('linuxdo.tree');
 }
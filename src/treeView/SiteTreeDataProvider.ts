@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { TreeItemNode, NodeType } from './TreeItemNode';
+import type { SiteManager } from '../sites/SiteManager';
+import type { SiteSession } from '../sites/SiteSession';
+
+/**
+ * 侧边栏的数据源，把节点交给所属站点处理
+ * 只有一个站点时直接显示该站点的内容，多个站点时每个站点是一个根节点
+ */
+export class SiteTreeDataProvider implements vscode.TreeDataProvider<TreeItemNode>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<TreeItemNode | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<TreeItemNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  // 各站点的根节点，站点内容整体刷新时只刷新对应的根节点
+  private siteNodes: Map<string, TreeItemNode> = new Map();
+
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private siteManager: SiteManager) {
+    for (const session of siteManager.sessions) {
+      this.disposables.push(
+        session.treeDataProvider.onDidChangeTreeData(node => {
+          this._onDidChangeTreeData.fire(node || this.siteNodes.get(session.site.id));
+        }),
+        session.onDidChangeStatus(() => {
+          const siteNode = this.siteNodes.get(session.site.id);
+          if (siteNode && siteNode.description !== session.getDescription()) {
+            siteNode.description = session.getDescription();
+            this._onDidChangeTreeData.fire(siteNode);
+          }
+        })
+      );
+    }
+  }
+
+  getTreeItem(element: TreeItemNode): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: TreeItemNode): Promise<TreeItemNode[]> {
+    if (!element) {
+      if (!this.siteManager.isMultiSite) {
+        return this.siteManager.sessions[0].treeDataProvider.getChildren();
+      }
+      return this.siteManager.sessions.map(session => this.createSiteNode(session));
+    }
+
+    const session = this.siteManager.get(element.data.siteId);
+    if (!session) {
+      return [];
+    }
+    return element.data.type === NodeType.SITE
+      ? session.treeDataProvider.getChildren()
+      : session.treeDataProvider.getChildren(element);
+  }
+
+  /**
+   * 取消节点正在进行的加载，节点折叠时调用
+   */
+  cancelLoading(element: TreeItemNode): void {
+    if (element.data.type !== NodeType.SITE) {
+      this.siteManager.get(element.data.siteId)?.treeDataProvider.cancelLoading(element);
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this._onDidChangeTreeData.dispose();
+  }
+
+  private createSiteNode(session: SiteSession): TreeItemNode {
+    const node = new TreeItemNode(
+      {
+        type: NodeType.SITE,
+        id: session.site.id,
+        siteId: session.site.id,
+        label: session.site.name,
+        description: session.getDescription(),
+        tooltip: session.site.baseUrl
+      },
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+    this.siteNodes.set(session.site.id, node);
+    return node;
+  }
+}
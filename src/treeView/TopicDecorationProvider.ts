@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+
+// 徽标最多两个字符，未读数量更多时显示 "9+"
+const MAX_BADGE_COUNT = 9;
+
+/**
+ * 话题节点的装饰，类似 Git 在资源管理器中显示的彩色字母
+ * 新话题显示 "N"，有未读回复时显示未读数量
+ * 状态记录在 URI 中，状态变化后节点使用新的 URI，不需要单独通知刷新
+ */
+export class TopicDecorationProvider implements vscode.FileDecorationProvider {
+  static readonly scheme = 'linuxdo-topic';
+
+  /**
+   * 生成话题节点的 resourceUri，没有需要显示的状态时返回 undefined
+   */
+  static getTopicUri(siteId: string, topicId: number, unreadCount: number, isNew: boolean): vscode.Uri | undefined {
+    if (!isNew && unreadCount <= 0) {
+      return undefined;
+    }
+    return vscode.Uri.from({
+      scheme: TopicDecorationProvider.scheme,
+      authority: siteId,
+      path: `/${topicId}`,
+      query: isNew ? 'new' : `unread=${unreadCount}`
+    });
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== TopicDecorationProvider.scheme) {
+      return undefined;
+    }
+
+    if (uri.query === 'new') {
+      return new vscode.FileDecoration(
+        'N',
+        vscode.l10n.t('新话题'),
+        new vscode.ThemeColor('gitDecoration.untrackedResourceForeground')
+      );
+    }
+
+    const unreadCount = Number(new URLSearchParams(uri.query).get('unread'));
+    if (unreadCount > 0) {
+      return new vscode.FileDecoration(
+        unreadCount > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : String(unreadCount),
+        vscode.l10n.t('{0} 条未读', unreadCount),
+        new vscode.ThemeColor('gitDecoration.modifiedResourceForeground')
+      );
+    }
+    return undefined;
+  }
+}
@@ -1,25 +1,72 @@
 import * as vscode from 'vscode';
+import { LinuxDoFileSystemProvider } from '../fileSystem/LinuxDoFileSystemProvider';
+import { TopicDecorationProvider } from './TopicDecorationProvider';
+import { NotificationLevel, PrivateMessageBox } from '../api/ApiTypes';
+import { NOTIFICATION_GROUPS, OTHER_NOTIFICATION_GROUP, getNotificationGroup } from '../services/NotificationService';
 
 export enum NodeType {
   ROOT = 'root',
+  SITE = 'site',
   ALL_TOPICS = 'all-topics',
   CATEGORY = 'category',
+  TAGS = 'tags',
+  TAG = 'tag',
   TOPIC = 'topic',
   POST = 'post',
   LOAD_MORE = 'load-more',
-  NOTIFICATION = 'notification'
+  NOTIFICATIONS = 'notifications',
+  NOTIFICATION_GROUP = 'notification-group',
+  NOTIFICATION = 'notification',
+  MESSAGES = 'messages',
+  MESSAGE_BOX = 'message-box',
+  MESSAGE = 'message',
+  BOOKMARKS = 'bookmarks',
+  BOOKMARK = 'bookmark',
+  SEARCH_RESULTS = 'search-results'
 }
 
 export interface NodeData {
   type: NodeType;
+  // 节点所属站点的 ID
+  siteId?: string;
   id?: number | string;
   label: string;
   description?: string;
   categoryId?: number;
+  categorySlug?: string;
+  topicCount?: number;
+  // 分类颜色，十六进制，不带 #
+  color?: string;
+  tagName?: string;
   topicId?: number;
+  slug?: string;
   postId?: number;
+  postNumber?: number;
   url?: string;
   notificationId?: number;
+  notificationType?: number;
+  notificationGroup?: string;
+  read?: boolean;
+  messageBox?: PrivateMessageBox;
+  bookmarkId?: number;
+  reminderAt?: string;
+  // 完整的提示内容，例如书签摘要
+  tooltip?: string;
+  searchQuery?: string;
+  // "加载更多"节点所属的父节点类型
+  parentType?: NodeType;
+  // 话题的状态和阅读进度
+  pinned?: boolean;
+  closed?: boolean;
+  archived?: boolean;
+  isNew?: boolean;
+  unreadCount?: number;
+  // 第一条未读回复的楼层号，打开话题时跳转到这里
+  firstUnreadPostNumber?: number;
+  // 列表中话题的最大楼层号，用于判断已打开的文档是否过期
+  highestPostNumber?: number;
+  // 话题或分类的通知级别
+  notificationLevel?: NotificationLevel;
 }
 
 export class TreeItemNode extends vscode.TreeItem {
@@ -30,48 +77,128 @@ export class TreeItemNode extends vscode.TreeItem {
     super(data.label, collapsibleState);
 
     // 使用完整内容作为tooltip，如果没有则使用description或label
-    this.tooltip = data.description || data.label;
+    this.tooltip = data.tooltip || data.description || data.label;
     this.description = data.description;
     this.contextValue = data.type;
 
+    // 已读通知不显示"标记为已读"按钮
+    if (data.type === NodeType.NOTIFICATION && data.read) {
+      this.contextValue = 'notification-read';
+    }
+
     this.iconPath = this.getIcon();
 
+    // 话题节点以只读 Markdown 文档打开，有未读回复时跳转到第一条未读回复
+    if (data.type === NodeType.TOPIC && data.topicId) {
+      const topicUri = LinuxDoFileSystemProvider.getTopicUri(data.siteId || '', data.categorySlug || data.categoryId || 'latest', data.topicId, data.slug || '');
+      this.command = data.firstUnreadPostNumber
+        ? {
+          command: 'linuxdo.openTopicDocument',
+          title: vscode.l10n.t('打开话题'),
+          arguments: [topicUri, data.firstUnreadPostNumber, data.highestPostNumber]
+        }
+        : {
+          command: 'vscode.open',
+          title: vscode.l10n.t('打开话题'),
+          arguments: [topicUri]
+        };
+      // 用于显示新话题和未读数量的装饰
+      this.resourceUri = TopicDecorationProvider.getTopicUri(data.siteId || '', data.topicId, data.unreadCount || 0, !!data.isNew);
+    }
+
+    // 回复节点在阅读器中打开并定位到该回复，私信会话直接在阅读器中打开
+    if (data.type === NodeType.POST || data.type === NodeType.MESSAGE || data.type === NodeType.BOOKMARK) {
+      this.command = {
+        command: 'linuxdo.openTopic',
+        title: vscode.l10n.t('在阅读器中打开'),
+        arguments: [this]
+      };
+    }
+
     // 如果是"加载更多"节点,设置点击命令
     if (data.type === NodeType.LOAD_MORE) {
       this.command = {
         command: 'linuxdo.loadMore',
-        title: '加载更多',
+        title: vscode.l10n.t('加载更多'),
         arguments: [this]
       };
     }
 
     // 如果是通知节点,设置点击命令
-    if (data.type === NodeType.NOTIFICATION && data.topicId) {
+    if (data.type === NodeType.NOTIFICATION && data.url) {
       this.command = {
         command: 'linuxdo.openNotification',
-        title: '打开通知',
+        title: vscode.l10n.t('打开通知'),
         arguments: [this]
       };
     }
   }
 
-  private getIcon(): vscode.ThemeIcon {
+  private getIcon(): vscode.ThemeIcon | vscode.Uri {
     switch (this.data.type) {
+      case NodeType.SITE:
+        return new vscode.ThemeIcon('globe');
       case NodeType.ROOT:
       case NodeType.ALL_TOPICS:
         return new vscode.ThemeIcon('home');
       case NodeType.CATEGORY:
-        return new vscode.ThemeIcon('folder');
+        return this.data.color && /^[0-9a-f]{3}([0-9a-f]{3})?$/i.test(this.data.color)
+          ? getColorIcon(this.data.color)
+          : new vscode.ThemeIcon('folder');
+      case NodeType.TAGS:
+        return new vscode.ThemeIcon('tag');
+      case NodeType.TAG:
+        return new vscode.ThemeIcon('tag');
       case NodeType.TOPIC:
+        // 只显示一个状态图标：归档 > 关闭 > 置顶
+        if (this.data.archived) {
+          return new vscode.ThemeIcon('archive');
+        }
+        if (this.data.closed) {
+          return new vscode.ThemeIcon('lock');
+        }
+        if (this.data.pinned) {
+          return new vscode.ThemeIcon('pinned');
+        }
         return new vscode.ThemeIcon('file-text');
       case NodeType.POST:
         return new vscode.ThemeIcon('comment');
       case NodeType.LOAD_MORE:
         return new vscode.ThemeIcon('chevron-down');
-      case NodeType.NOTIFICATION:
+      case NodeType.NOTIFICATIONS:
         return new vscode.ThemeIcon('bell');
+      case NodeType.NOTIFICATION_GROUP: {
+        const group = NOTIFICATION_GROUPS.find(g => g.id === this.data.notificationGroup) || OTHER_NOTIFICATION_GROUP;
+        return new vscode.ThemeIcon(group.icon);
+      }
+      case NodeType.NOTIFICATION: {
+        const icon = getNotificationGroup(this.data.notificationType!).icon;
+        return this.data.read
+          ? new vscode.ThemeIcon(icon, new vscode.ThemeColor('disabledForeground'))
+          : new vscode.ThemeIcon(icon, new vscode.ThemeColor('notificationsInfoIcon.foreground'));
+      }
+      case NodeType.MESSAGES:
+        return new vscode.ThemeIcon('mail');
+      case NodeType.MESSAGE_BOX:
+        return new vscode.ThemeIcon(this.data.messageBox === 'sent' ? 'send' : this.data.messageBox === 'archive' ? 'archive' : 'inbox');
+      case NodeType.MESSAGE:
+        return new vscode.ThemeIcon('comment-discussion');
+      case NodeType.BOOKMARKS:
+        return new vscode.ThemeIcon('bookmark');
+      case NodeType.BOOKMARK:
+        return new vscode.ThemeIcon(this.data.reminderAt ? 'bell' : 'bookmark');
+      case NodeType.SEARCH_RESULTS:
+        return new vscode.ThemeIcon('search');
       default:
         return new vscode.ThemeIcon('file');
     }
   }
 }
+
+/**
+ * 生成与网页版分类徽标相同颜色的方块图标
+ */
+function getColorIcon(color: string): vscode.Uri {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16"><rect x="3" y="3" width="10" height="10" rx="2" fill="#${color}"/></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+}
@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import type { Post } from '../api/ApiTypes';
+import type { Site } from '../sites/Site';
+import { escapeHtml } from './WebviewUtils';
+
+// 允许保留的标签，其余标签会被移除（内容保留）
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'article', 'aside', 'b', 'blockquote', 'br', 'code', 'del', 'details',
+  'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'ins',
+  'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's', 'small', 'span', 'strike', 'strong',
+  'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+]);
+
+// 连同内容一起移除的标签
+const DROPPED_BLOCK_TAGS = ['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'svg', 'math', 'form'];
+
+// 允许保留的属性
+const ALLOWED_ATTRIBUTES = new Set([
+  'href', 'src', 'alt', 'title', 'class', 'width', 'height', 'colspan', 'rowspan',
+  'data-username', 'data-post', 'data-topic', 'open'
+]);
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+const CODE_KEYWORDS = new Set([
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+  'def', 'default', 'defer', 'del', 'do', 'elif', 'else', 'enum', 'except', 'export', 'extends',
+  'false', 'final', 'finally', 'fn', 'for', 'from', 'func', 'function', 'go', 'if', 'impl',
+  'implements', 'import', 'in', 'interface', 'is', 'lambda', 'let', 'match', 'mod', 'module',
+  'mut', 'namespace', 'new', 'nil', 'None', 'not', 'null', 'or', 'and', 'package', 'pass',
+  'private', 'protected', 'pub', 'public', 'raise', 'readonly', 'return', 'self', 'static',
+  'struct', 'super', 'switch', 'this', 'throw', 'throws', 'trait', 'true', 'True', 'False',
+  'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while', 'with', 'yield',
+  'echo', 'fi', 'then', 'done', 'esac', 'local', 'export'
+]);
+
+// 注释、字符串、数字、标识符的通用词法规则
+const CODE_TOKEN_PATTERN = /(\/\*[\s\S]*?\*\/|\/\/[^\n]*|#[^\n]*|--[^\n]*)|("(?:\\[\s\S]|[^"\\\n])*"|'(?:\\[\s\S]|[^'\\\n])*'|`(?:\\[\s\S]|[^`\\])*`)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_$][\w$]*)/g;
+
+// 这些语言中 # 和 -- 不是注释
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'py', 'bash', 'sh', 'shell', 'zsh', 'ruby', 'rb', 'yaml', 'yml', 'toml', 'perl', 'r', 'dockerfile', 'makefile', 'conf', 'ini', 'powershell', 'ps1', 'nginx']);
+const DASH_COMMENT_LANGUAGES = new Set(['sql', 'lua', 'haskell', 'hs']);
+
+/**
+ * 将相对地址转换为绝对地址，并拒绝不安全的协议
+ */
+export function resolveUrl(url: string, site: Site): string | null {
+  const trimmed = url.trim();
+  if (trimmed.startsWith('//')) {
+    return `https:${trimmed}`;
+  }
+  if (trimmed.startsWith('/')) {
+    return site.url(trimmed);
+  }
+  if (trimmed.startsWith('#')) {
+    return trimmed;
+  }
+  if (/^(https?:|mailto:|data:image\/(png|gif|jpeg|webp);)/i.test(trimmed)) {
+    return trimmed;
+  }
+  return null;
+}
+
+/**
+ * 获取用户头像地址
+ */
+export function getAvatarUrl(avatarTemplate: string | undefined, site: Site, size: number = 48): string {
+  if (!avatarTemplate) {
+    return '';
+  }
+  return resolveUrl(avatarTemplate.replace('{size}', size.toString()), site) || '';
+}
+
+/**
+ * 解码常见的 HTML 实体
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/&#x27;/g, '\'')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+function sanitizeAttributes(tagName: string, rawAttributes: string, site: Site): string {
+  const attributes: string[] = [];
+  const attributePattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'>]+))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attributePattern.exec(rawAttributes)) !== null) {
+    const name = match[1].toLowerCase();
+    if (!ALLOWED_ATTRIBUTES.has(name)) {
+      continue;
+    }
+
+    let value = match[2] || '';
+    if (value.startsWith('"') || value.startsWith('\'')) {
+      value = value.slice(1, -1);
+    }
+    value = decodeEntities(value);
+
+    if (URL_ATTRIBUTES.has(name)) {
+      const resolved = resolveUrl(value, site);
+      if (!resolved) {
+        continue;
+      }
+      value = resolved;
+    }
+
+    attributes.push(`${name}="${escapeHtml(value)}"`);
+  }
+
+  // 图片懒加载，避免一次性加载整个话题的图片
+  if (tagName === 'img') {
+    attributes.push('loading="lazy"');
+  }
+
+  return attributes.length > 0 ? ' ' + attributes.join(' ') : '';
+}
+
+/**
+ * 清理 Discourse 返回的 cooked HTML，只保留白名单内的标签和属性
+ */
+export function sanitizeHtml(html: string, site: Site): string {
+  let result = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const tag of DROPPED_BLOCK_TAGS) {
+    result = result.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'), '');
+    result = result.replace(new RegExp(`<${tag}\\b[^>]*>`, 'gi'), '');
+  }
+
+  return result.replace(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*)>/g, (_match, slash: string, tag: string, rawAttributes: string) => {
+    const tagName = tag.toLowerCase();
+    if (!ALLOWED_TAGS.has(tagName)) {
+      return '';
+    }
+    if (slash) {
+      return `</${tagName}>`;
+    }
+    return `<${tagName}${sanitizeAttributes(tagName, rawAttributes, site)}>`;
+  });
+}
+
+function highlightCode(code: string, language: string): string {
+  const lang = language.toLowerCase();
+  const text = decodeEntities(code);
+  let result = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  CODE_TOKEN_PATTERN.lastIndex = 0;
+  while ((match = CODE_TOKEN_PATTERN.exec(text)) !== null) {
+    let className = '';
+    if (match[1]) {
+      const isHashComment = match[1].startsWith('#');
+      const isDashComment = match[1].startsWith('--');
+      if ((isHashComment && !HASH_COMMENT_LANGUAGES.has(lang)) || (isDashComment && !DASH_COMMENT_LANGUAGES.has(lang))) {
+        // 不是注释，按普通文本处理第一个字符，剩余部分继续匹配
+        CODE_TOKEN_PATTERN.lastIndex = match.index + 1;
+        continue;
+      }
+      className = 'hl-comment';
+    } else if (match[2]) {
+      className = 'hl-string';
+    } else if (match[3]) {
+      className = 'hl-number';
+    } else if (match[4] && CODE_KEYWORDS.has(match[4])) {
+      className = 'hl-keyword';
+    }
+
+    if (!className) {
+      continue;
+    }
+
+    result += escapeHtml(text.substring(lastIndex, match.index));
+    result += `<span class="${className}">${escapeHtml(match[0])}</span>`;
+    lastIndex = match.index + match[0].length;
+  }
+
+  result += escapeHtml(text.substring(lastIndex));
+  return result;
+}
+
+/**
+ * 为代码块添加语法高亮
+ */
+export function highlightCodeBlocks(html: string): string {
+  return html.replace(/<pre([^>]*)>\s*<code([^>]*)>([\s\S]*?)<\/code>\s*<\/pre>/g, (_match, preAttributes: string, codeAttributes: string, code: string) => {
+    const langMatch = codeAttributes.match(/lang-([\w+#-]+)/);
+    const language = langMatch ? langMatch[1] : 'auto';
+    return `<pre${preAttributes}><code${codeAttributes}>${highlightCode(code, language)}</code></pre>`;
+  });
+}
+
+/**
+ * 渲染单条回复为 HTML
+ */
+export function renderPost(post: Post, site: Site): string {
+  const avatarUrl = getAvatarUrl(post.avatar_template, site);
+  const displayName = post.name && post.name !== post.username
+    ? `${escapeHtml(post.name)} <span class="username">@${escapeHtml(post.username)}</span>`
+    : escapeHtml(post.username);
+  const createdAt = new Date(post.created_at);
+  const replyTo = post.reply_to_post_number
+    ? `<a class="reply-to" href="#post-${post.reply_to_post_number}">${escapeHtml(vscode.l10n.t('回复 #{0}', post.reply_to_post_number))}</a>`
+    : '';
+
+  return `<article class="post" id="post-${post.post_number}" data-post-number="${post.post_number}">
+    <header class="post-header">
+      ${avatarUrl ? `<img class="avatar" src="${escapeHtml(avatarUrl)}" alt="">` : ''}
+      <span class="author">${displayName}</span>
+      ${replyTo}
+      <span class="meta">
+        <time datetime="${escapeHtml(post.created_at)}" title="${escapeHtml(createdAt.toLocaleString(vscode.env.language))}">${escapeHtml(createdAt.toLocaleString(vscode.env.language))}</time>
+        <a class="post-number" href="#post-${post.post_number}">#${post.post_number}</a>
+      </span>
+    </header>
+    <div class="cooked">${highlightCodeBlocks(sanitizeHtml(post.cooked, site))}</div>
+  </article>`;
+}
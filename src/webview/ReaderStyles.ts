@@ -0,0 +1,107 @@
+// 阅读器和预览共用的帖子样式
+export const POST_STYLES = `
+  .post {
+    padding: 16px 0;
+    border-bottom: 1px solid var(--vscode-panel-border);
+  }
+  .post-header {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    margin-bottom: 8px;
+  }
+  .avatar {
+    width: 28px;
+    height: 28px;
+    border-radius: 50%;
+  }
+  .author {
+    font-weight: 600;
+  }
+  .username, .meta, .reply-to {
+    font-size: 12px;
+    opacity: 0.7;
+  }
+  .meta {
+    margin-left: auto;
+    display: flex;
+    gap: 8px;
+  }
+  .post-number {
+    color: inherit;
+    text-decoration: none;
+  }
+  .cooked img {
+    max-width: 100%;
+    height: auto;
+  }
+  .cooked img.emoji {
+    width: 20px;
+    height: 20px;
+    vertical-align: middle;
+  }
+  .cooked pre {
+    padding: 12px;
+    overflow-x: auto;
+    background: var(--vscode-textCodeBlock-background);
+    border-radius: 3px;
+  }
+  .cooked code {
+    font-family: var(--vscode-editor-font-family);
+    font-size: var(--vscode-editor-font-size);
+  }
+  .cooked :not(pre) > code {
+    padding: 1px 4px;
+    background: var(--vscode-textCodeBlock-background);
+    border-radius: 3px;
+  }
+  .hl-keyword { color: var(--vscode-symbolIcon-keywordForeground, #569cd6); }
+  .hl-string { color: var(--vscode-debugTokenExpression-string, #ce9178); }
+  .hl-number { color: var(--vscode-debugTokenExpression-number, #b5cea8); }
+  .hl-comment { color: var(--vscode-descriptionForeground); font-style: italic; }
+  .cooked blockquote, .cooked aside.quote blockquote {
+    margin: 8px 0;
+    padding: 8px 12px;
+    border-left: 3px solid var(--vscode-textBlockQuote-border);
+    background: var(--vscode-textBlockQuote-background);
+  }
+  .cooked aside.quote .title {
+    font-size: 12px;
+    opacity: 0.8;
+    padding: 4px 12px 0;
+  }
+  .cooked aside.quote .title img {
+    width: 20px;
+    height: 20px;
+    border-radius: 50%;
+    vertical-align: middle;
+  }
+  .cooked aside.onebox {
+    margin: 8px 0;
+    padding: 12px;
+    border: 1px solid var(--vscode-panel-border);
+    border-radius: 3px;
+  }
+  .cooked aside.onebox header {
+    font-size: 12px;
+    opacity: 0.7;
+  }
+  .cooked aside.onebox img {
+    max-width: 120px;
+    max-height: 120px;
+    float: left;
+    margin-right: 12px;
+  }
+  .cooked aside.onebox::after {
+    content: '';
+    display: block;
+    clear: both;
+  }
+  .cooked table {
+    border-collapse: collapse;
+  }
+  .cooked th, .cooked td {
+    padding: 4px 8px;
+    border: 1px solid var(--vscode-panel-border);
+  }
+`;
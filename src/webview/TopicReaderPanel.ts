@@ -0,0 +1,425 @@
+import * as vscode from 'vscode';
+import type { Post } from '../api/ApiTypes';
+import type { SiteSession } from '../sites/SiteSession';
+import { TreeItemNode, NodeType } from '../treeView/TreeItemNode';
+import { renderPost } from './PostRenderer';
+import { POST_STYLES } from './ReaderStyles';
+import { escapeHtml, getNonce } from './WebviewUtils';
+
+// 阅读时间的上报间隔，和网页端一样攒一段时间再上报
+const TIMINGS_FLUSH_INTERVAL = 20 * 1000;
+
+export class TopicReaderPanel {
+  // 每个话题只打开一个阅读面板，键为 "站点ID/话题ID"
+  private static panels: Map<string, TopicReaderPanel> = new Map();
+
+  private isLoading: boolean = false;
+  private renderedPostIds: Set<number> = new Set();
+
+  // 还没有上报的阅读时间，键为楼层号，值为毫秒
+  private pendingTimings: Map<number, number> = new Map();
+  private pendingTopicTime: number = 0;
+  private flushTimer: NodeJS.Timeout;
+
+  static async show(session: SiteSession, topicId: number, postNumber?: number): Promise<void> {
+    const key = `${session.site.id}/${topicId}`;
+    const existing = TopicReaderPanel.panels.get(key);
+    if (existing) {
+      existing.panel.reveal();
+      if (postNumber) {
+        await existing.revealPost(postNumber);
+      }
+      return;
+    }
+
+    const topicData = await session.treeDataProvider.getTopicData(topicId);
+
+    const panel = vscode.window.createWebviewPanel(
+      'linuxdoTopicReader',
+      topicData.title,
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: []
+      }
+    );
+
+    const reader = new TopicReaderPanel(panel, session, topicId);
+    TopicReaderPanel.panels.set(key, reader);
+    try {
+      await reader.render(postNumber);
+    } catch (error) {
+      // 加载失败时关闭空白的面板，由调用方显示错误
+      panel.dispose();
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭站点的全部阅读面板，切换账号后调用
+   * 还没有上报的阅读时间属于上一个账号，直接丢弃
+   */
+  static closeAll(siteId: string): void {
+    for (const [key, reader] of TopicReaderPanel.panels) {
+      if (key.startsWith(`${siteId}/`)) {
+        reader.pendingTimings.clear();
+        reader.pendingTopicTime = 0;
+        reader.panel.dispose();
+      }
+    }
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly session: SiteSession,
+    private readonly topicId: number
+  ) {
+    this.flushTimer = setInterval(() => this.flushTimings(), TIMINGS_FLUSH_INTERVAL);
+
+    panel.onDidDispose(() => {
+      TopicReaderPanel.panels.delete(`${session.site.id}/${topicId}`);
+      clearInterval(this.flushTimer);
+      this.flushTimings();
+    });
+
+    panel.webview.onDidReceiveMessage(async message => {
+      switch (message.command) {
+        case 'loadMore':
+          await this.loadMore();
+          break;
+        case 'openExternal':
+          vscode.env.openExternal(vscode.Uri.parse(message.url));
+          break;
+        case 'reply':
+          await this.reply();
+          break;
+        case 'readPosts':
+          await this.recordReading(message.postNumbers, message.duration);
+          break;
+      }
+    });
+  }
+
+  private async render(postNumber?: number): Promise<void> {
+    if (postNumber) {
+      await this.loadUntilPost(postNumber);
+    }
+    const topicData = await this.session.treeDataProvider.getTopicData(this.topicId);
+    const posts = this.takeUnrenderedPosts(topicData.loadedPosts);
+    const hasMore = topicData.loadedPosts.length < topicData.allPostIds.length;
+
+    this.panel.webview.html = this.getHtml(
+      this.panel.webview,
+      topicData.title,
+      this.session.site.topicUrl(topicData.slug, this.topicId),
+      posts.map(post => renderPost(post, this.session.site)).join(''),
+      hasMore,
+      postNumber
+    );
+  }
+
+  /**
+   * 加载到指定楼层为止，例如从第一条未读回复开始阅读
+   */
+  private async loadUntilPost(postNumber: number): Promise<void> {
+    const topicData = await this.session.treeDataProvider.getTopicData(this.topicId);
+    while (!topicData.loadedPosts.some(post => post.post_number >= postNumber)) {
+      const newPosts = await this.session.treeDataProvider.loadMorePosts(this.topicId, false);
+      if (newPosts.length === 0) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * 已打开的面板跳转到指定楼层，楼层还没有加载时先加载到该楼层
+   */
+  private async revealPost(postNumber: number): Promise<void> {
+    this.isLoading = true;
+    try {
+      await this.loadUntilPost(postNumber);
+      await this.appendPosts();
+    } finally {
+      this.isLoading = false;
+    }
+    this.panel.webview.postMessage({ command: 'scrollToPost', postNumber });
+  }
+
+  /**
+   * 把已加载但还没有显示的回复追加到页面中
+   */
+  private async appendPosts(): Promise<void> {
+    const topicData = await this.session.treeDataProvider.getTopicData(this.topicId);
+    const posts = this.takeUnrenderedPosts(topicData.loadedPosts);
+
+    this.panel.webview.postMessage({
+      command: 'appendPosts',
+      html: posts.map(post => renderPost(post, this.session.site)).join(''),
+      hasMore: topicData.loadedPosts.length < topicData.allPostIds.length
+    });
+  }
+
+  /**
+   * 滚动到底部时加载下一批回复
+   */
+  private async loadMore(): Promise<void> {
+    if (this.isLoading) {
+      return;
+    }
+    this.isLoading = true;
+
+    try {
+      await this.session.treeDataProvider.loadMorePosts(this.topicId, false);
+      await this.appendPosts();
+    } catch (error: any) {
+      console.error('[TopicReaderPanel] 加载更多回复失败:', error);
+      this.panel.webview.postMessage({ command: 'loadFailed', message: error.message });
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  /**
+   * 记录屏幕上可见的帖子的阅读时间，VS Code 窗口不在前台时不计入
+   */
+  private async recordReading(postNumbers: number[], duration: number): Promise<void> {
+    if (!vscode.window.state.focused || !this.session.isLoggedIn()) {
+      return;
+    }
+
+    const topicData = await this.session.treeDataProvider.getTopicData(this.topicId);
+    // 超过最大楼层号的帖子会被站点拒绝
+    const readable = postNumbers.filter(postNumber => postNumber > 0 && postNumber <= topicData.highestPostNumber);
+    if (readable.length === 0) {
+      return;
+    }
+    for (const postNumber of readable) {
+      this.pendingTimings.set(postNumber, (this.pendingTimings.get(postNumber) || 0) + duration);
+    }
+    this.pendingTopicTime += duration;
+  }
+
+  /**
+   * 上报攒下的阅读时间，站点据此标记已读
+   */
+  private async flushTimings(): Promise<void> {
+    if (this.pendingTimings.size === 0) {
+      return;
+    }
+    const timings = Object.fromEntries(this.pendingTimings);
+    const lastReadPostNumber = Math.max(...this.pendingTimings.keys());
+    const topicTime = this.pendingTopicTime;
+    this.pendingTimings.clear();
+    this.pendingTopicTime = 0;
+
+    try {
+      await this.session.topicService.recordTimings(this.topicId, timings, topicTime);
+      this.session.treeDataProvider.markTopicRead(this.topicId, lastReadPostNumber);
+    } catch (error: any) {
+      // 上报失败不影响阅读，只记录日志
+      console.error('[TopicReaderPanel] 上报阅读时间失败:', error.message);
+    }
+  }
+
+  /**
+   * 在编辑器中回复当前话题或私信
+   */
+  private async reply(): Promise<void> {
+    const topicData = await this.session.treeDataProvider.getTopicData(this.topicId);
+    const node = new TreeItemNode(
+      {
+        type: NodeType.TOPIC,
+        siteId: this.session.site.id,
+        topicId: this.topicId,
+        slug: topicData.slug,
+        label: topicData.title
+      },
+      vscode.TreeItemCollapsibleState.None
+    );
+    await vscode.commands.executeCommand('linuxdo.replyToTopic', node);
+  }
+
+  private takeUnrenderedPosts(posts: Post[]): Post[] {
+    const unrendered = posts
+      .filter(post => !this.renderedPostIds.has(post.id))
+      .sort((a, b) => a.post_number - b.post_number);
+    unrendered.forEach(post => this.renderedPostIds.add(post.id));
+    return unrendered;
+  }
+
+  private getHtml(webview: vscode.Webview, title: string, topicUrl: string, postsHtml: string, hasMore: boolean, postNumber?: number): string {
+    const nonce = getNonce();
+    // 页面脚本中显示的状态文字
+    const scriptMessages = {
+      loading: vscode.l10n.t('正在加载...'),
+      noMore: vscode.l10n.t('没有更多回复了'),
+      loadFailed: vscode.l10n.t('加载失败: ')
+    };
+
+    return `<!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+        <title>${escapeHtml(title)}</title>
+        <style>
+          body {
+            padding: 0 20px 40px;
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            line-height: 1.6;
+          }
+          .container {
+            max-width: 860px;
+            margin: 0 auto;
+          }
+          h1 {
+            font-size: 20px;
+            font-weight: 500;
+            margin: 24px 0 8px;
+          }
+          h1 a {
+            color: inherit;
+            text-decoration: none;
+          }
+          .actions {
+            margin-bottom: 8px;
+          }
+          a {
+            color: var(--vscode-textLink-foreground);
+          }
+          ${POST_STYLES}
+          #status {
+            padding: 16px 0;
+            text-align: center;
+            opacity: 0.7;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <h1><a href="${escapeHtml(topicUrl)}">${escapeHtml(title)}</a></h1>
+          <div class="actions"><a href="#" id="reply">${escapeHtml(vscode.l10n.t('回复'))}</a></div>
+          <div id="posts">${postsHtml}</div>
+          <div id="status">${escapeHtml(hasMore ? scriptMessages.loading : scriptMessages.noMore)}</div>
+        </div>
+
+        <script nonce="${nonce}">
+          const vscode = acquireVsCodeApi();
+          const messages = ${JSON.stringify(scriptMessages)};
+          const status = document.getElementById('status');
+          let hasMore = ${hasMore};
+          let loading = false;
+
+          function scrollToPost(postNumber) {
+            // 楼层已删除时滚动到之后的第一个楼层
+            const element = document.getElementById('post-' + postNumber)
+              || [...document.querySelectorAll('#posts > article.post')].find(post => Number(post.dataset.postNumber) >= postNumber);
+            if (element) {
+              element.scrollIntoView();
+            }
+          }
+
+          function requestMore() {
+            if (!hasMore || loading) {
+              return;
+            }
+            loading = true;
+            status.textContent = messages.loading;
+            vscode.postMessage({ command: 'loadMore' });
+          }
+
+          // 滚动到底部附近时自动加载下一批回复
+          const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+              requestMore();
+            }
+          }, { rootMargin: '400px' });
+          observer.observe(status);
+
+          // 记录屏幕上可见的帖子，每秒把阅读时间发给插件
+          const visiblePosts = new Set();
+          const postObserver = new IntersectionObserver(entries => {
+            for (const entry of entries) {
+              const postNumber = Number(entry.target.dataset.postNumber);
+              if (entry.isIntersecting) {
+                visiblePosts.add(postNumber);
+              } else {
+                visiblePosts.delete(postNumber);
+              }
+            }
+          });
+
+          function observePosts() {
+            document.querySelectorAll('#posts > article.post:not([data-observed])').forEach(post => {
+              post.dataset.observed = 'true';
+              postObserver.observe(post);
+            });
+          }
+          observePosts();
+
+          // 一段时间没有操作时停止计时，避免挂机计入阅读时间
+          const IDLE_TIMEOUT = 3 * 60 * 1000;
+          let lastActivity = Date.now();
+          ['scroll', 'mousemove', 'keydown', 'mousedown'].forEach(type => {
+            window.addEventListener(type, () => { lastActivity = Date.now(); }, { passive: true });
+          });
+
+          setInterval(() => {
+            if (document.visibilityState !== 'visible' || Date.now() - lastActivity > IDLE_TIMEOUT || visiblePosts.size === 0) {
+              return;
+            }
+            vscode.postMessage({ command: 'readPosts', postNumbers: [...visiblePosts], duration: 1000 });
+          }, 1000);
+
+          window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.command) {
+              case 'appendPosts':
+                document.getElementById('posts').insertAdjacentHTML('beforeend', message.html);
+                observePosts();
+                hasMore = message.hasMore;
+                loading = false;
+                status.textContent = hasMore ? '' : messages.noMore;
+                // 加载的内容不足一屏时继续加载
+                if (hasMore && status.getBoundingClientRect().top < window.innerHeight + 400) {
+                  requestMore();
+                }
+                break;
+              case 'loadFailed':
+                loading = false;
+                status.textContent = messages.loadFailed + message.message;
+                break;
+              case 'scrollToPost':
+                scrollToPost(message.postNumber);
+                break;
+            }
+          });
+
+          // 站内锚点在当前页面滚动，其他链接交给 VS Code 在浏览器中打开
+          document.addEventListener('click', event => {
+            const link = event.target.closest('a');
+            if (!link) {
+              return;
+            }
+            const href = link.getAttribute('href') || '';
+            event.preventDefault();
+            if (link.id === 'reply') {
+              vscode.postMessage({ command: 'reply' });
+            } else if (href.startsWith('#')) {
+              scrollToPost(href.replace('#post-', ''));
+            } else if (href) {
+              vscode.postMessage({ command: 'openExternal', url: href });
+            }
+          });
+
+          ${postNumber ? `scrollToPost(${postNumber});` : ''}
+        </script>
+      </body>
+    </html>`;
+  }
+}